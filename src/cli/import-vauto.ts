@@ -0,0 +1,92 @@
+import 'dotenv/config';
+import { getRepository } from "../lib/repository";
+import { missingCredentialsError } from "../lib/tool-result";
+import { FEED_FORMATS, readFeedFile, type FeedFormat } from "../lib/vauto-feed";
+import { importVautoFeed, formatImportReport } from "../lib/vauto-import";
+
+/**
+ * Import a vAuto inventory export from a local file, same as the
+ * import-vauto-feed tool:
+ *
+ *   npm run import:vauto -- <file> [--format csv|json] [--dry-run] [--keep-missing] [--json]
+ *
+ * Exits with 1 when the import could not run and 2 when some rows failed.
+ */
+
+const USAGE = `Usage: npm run import:vauto -- <file> [--format csv|json] [--dry-run] [--keep-missing] [--json]
+
+  --format        Feed format (default: from the file extension or content)
+  --dry-run       Report what would change without writing anything
+  --keep-missing  Do not move vehicles missing from the feed to the trash
+  --json          Print the report as JSON`;
+
+type CliOptions = {
+  file: string;
+  format?: FeedFormat;
+  dryRun: boolean;
+  removeMissing: boolean;
+  json: boolean;
+};
+
+function parseArgs(args: string[]): CliOptions {
+  const options: Partial<CliOptions> = { dryRun: false, removeMissing: true, json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--keep-missing') options.removeMissing = false;
+    else if (arg === '--json') options.json = true;
+    else if (arg === '--format') {
+      const format = args[++i];
+      if (!FEED_FORMATS.includes(format as FeedFormat)) {
+        throw new Error(`Invalid --format '${format}', expected one of: ${FEED_FORMATS.join(', ')}`);
+      }
+      options.format = format as FeedFormat;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (options.file) {
+      throw new Error(`Only one feed file can be imported at a time`);
+    } else {
+      options.file = arg;
+    }
+  }
+
+  if (!options.file) {
+    throw new Error('Missing feed file');
+  }
+
+  return options as CliOptions;
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const repository = getRepository();
+  if (!repository) {
+    console.error(missingCredentialsError().structuredContent.error.message);
+    return 1;
+  }
+
+  const records = await readFeedFile(options.file, options.format);
+  const report = await importVautoFeed(repository, records, {
+    dryRun: options.dryRun,
+    removeMissing: options.removeMissing,
+  });
+
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatImportReport(report));
+  return report.errors.length > 0 ? 2 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
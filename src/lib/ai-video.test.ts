@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRepository } from "./repository";
+import { aiVideoKey, checkAiVideoObject, removeAiVideos } from "./ai-video";
+import type { MediaStorage, StoredObjectInfo } from "./storage";
+
+// Storage holding the given keys, recording deletes
+function fakeStorage(keys: string[]): MediaStorage & { deleted: string[] } {
+  const objects = new Set(keys);
+  const deleted: string[] = [];
+  return {
+    name: 'local',
+    location: 'test storage',
+    deleted,
+    putObject: async key => { objects.add(key); },
+    getText: async () => '',
+    headObject: async (key): Promise<StoredObjectInfo | null> => objects.has(key) ? { size: 1, lastModified: null } : null,
+    deleteObject: async key => { objects.delete(key); deleted.push(key); },
+    listObjects: async prefix => [...objects].filter(key => key.startsWith(prefix)).map(key => ({ key, size: 1, lastModified: null })),
+    getDownloadUrl: async key => `file:///${key}`,
+  };
+}
+
+// The video was uploaded before the stock number changed from F1001 to F1001-A
+const renamed = { id: 1, stock_number: 'F1001-A', ai_video: 'https://cdn.example.com/vehicles/F1001/ai-video.mp4' };
+
+test('aiVideoKey uses the key of the linked URL', () => {
+  assert.equal(aiVideoKey(renamed), 'vehicles/F1001/ai-video.mp4');
+  assert.equal(aiVideoKey({ id: 2, stock_number: 'P2002', ai_video: null }), 'vehicles/P2002/ai-video.mp4');
+  assert.equal(aiVideoKey({ id: 3, stock_number: 'L3003', ai_video: 'https://other.example.com/video' }), 'vehicles/L3003/ai-video.mp4');
+});
+
+test('checkAiVideoObject finds the linked file after a stock number change', async () => {
+  const object = await checkAiVideoObject(fakeStorage(['vehicles/F1001/ai-video.mp4']), renamed);
+  assert.equal(object.status, 'found');
+  assert.equal(object.objectKey, 'vehicles/F1001/ai-video.mp4');
+});
+
+test('removeAiVideos deletes the linked file after a stock number change', async () => {
+  const repository = createMemoryRepository({ vehicles: [{ ...renamed }] });
+  const storage = fakeStorage(['vehicles/F1001/ai-video.mp4']);
+
+  const { results } = await removeAiVideos(repository, storage, [renamed], 'delete');
+
+  assert.equal(results[0].status, 'deleted');
+  assert.deepEqual(storage.deleted, ['vehicles/F1001/ai-video.mp4']);
+});
@@ -0,0 +1,209 @@
+import { z } from "zod";
+import { vehicleSummarySchema, toVehicleSummary } from "./vehicle";
+import { getAiVideoKeyTemplate, renderKey, vehicleKeyValues, keyTemplatePattern, VEHICLE_KEY_COLUMNS, type MediaStorage } from "./storage";
+import { diffColumns, recordAudit, type AuditChanges } from "./audit";
+import type { VehicleRepository, VehicleRow } from "./repository";
+
+/**
+ * AI video of a vehicle: the public URL in `ai_video` and the file in the
+ * media storage, at the key rendered from AI_VIDEO_KEY_TEMPLATE.
+ *
+ * The video batch generates a video for every vehicle without one.
+ * `ai_video_queued_at` records that a regeneration was requested; the batch
+ * clears it once it writes the new `ai_video`.
+ */
+
+export const AI_VIDEO_STATUSES = ['has_video', 'missing', 'queued'] as const;
+
+export type AiVideoStatus = typeof AI_VIDEO_STATUSES[number];
+
+export const AI_VIDEO_COLUMNS = [...new Set(['id', 'year', 'make', 'model', 'vin', 'stock_number', ...VEHICLE_KEY_COLUMNS, 'ai_video', 'ai_video_queued_at'])];
+
+export function aiVideoStatus(row: VehicleRow): AiVideoStatus {
+  if (row.ai_video_queued_at) return 'queued';
+  return row.ai_video ? 'has_video' : 'missing';
+}
+
+const AI_VIDEO_EXTENSION = 'mp4';
+
+/**
+ * Object key of the video, or null when the vehicle lacks a value the key
+ * template needs (by default its stock number: vehicles/{stockNumber}/ai-video.mp4)
+ */
+export function aiVideoObjectKey(row: VehicleRow): string | null {
+  return renderKey(getAiVideoKeyTemplate(), vehicleKeyValues(row, AI_VIDEO_EXTENSION));
+}
+
+export function missingKeyMessage(): string {
+  return `The vehicle is missing a value the key template '${getAiVideoKeyTemplate()}' needs, so its file path is unknown`;
+}
+
+/**
+ * Object key an `ai_video` URL points to: the end of its path that fits the
+ * key template, so both custom domains and path-style bucket URLs work.
+ * Null for other URLs.
+ */
+export function objectKeyFromUrl(url: string): string | null {
+  let segments: string[];
+  try {
+    segments = decodeURIComponent(new URL(url).pathname).split('/').filter(Boolean);
+  } catch {
+    return null;
+  }
+
+  const pattern = keyTemplatePattern(getAiVideoKeyTemplate());
+  for (let i = 0; i < segments.length; i++) {
+    const key = segments.slice(i).join('/');
+    if (pattern.test(key)) return key;
+  }
+  return null;
+}
+
+/**
+ * Key of the file to check or delete: the one `ai_video` links to, so a
+ * vehicle whose stock number or key template changed still reaches its actual
+ * file. Falls back to the key rendered from the template.
+ */
+export function aiVideoKey(row: VehicleRow): string | null {
+  return (row.ai_video ? objectKeyFromUrl(row.ai_video) : null) ?? aiVideoObjectKey(row);
+}
+
+export const aiVideoObjectSchema = z.object({
+  status: z.enum(['found', 'missing', 'not_configured', 'no_key', 'failed']).describe("Result of looking up the file in the media storage"),
+  objectKey: z.string().nullable(),
+  size: z.number().nullable().optional().describe("File size in bytes"),
+  lastModified: z.string().nullable().optional(),
+  error: z.string().optional(),
+});
+
+export type AiVideoObject = z.infer<typeof aiVideoObjectSchema>;
+
+/**
+ * Check that the video file exists
+ */
+export async function checkAiVideoObject(storage: MediaStorage | null, row: VehicleRow): Promise<AiVideoObject> {
+  const objectKey = aiVideoKey(row);
+  if (!objectKey) return { status: 'no_key', objectKey };
+  if (!storage) return { status: 'not_configured', objectKey };
+
+  try {
+    const info = await storage.headObject(objectKey);
+    return info ? { status: 'found', objectKey, ...info } : { status: 'missing', objectKey };
+  } catch (err) {
+    return { status: 'failed', objectKey, error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
+export function describeAiVideoObject(object: AiVideoObject): string {
+  switch (object.status) {
+    case 'found': {
+      const size = object.size !== null && object.size !== undefined ? `${(object.size / 1024 / 1024).toFixed(1)} MB` : 'unknown size';
+      const modified = object.lastModified ? `, modified ${new Date(object.lastModified).toLocaleString()}` : '';
+      return `✅ in storage (${size}${modified})`;
+    }
+    case 'missing':
+      return `❌ not found in storage (${object.objectKey})`;
+    case 'no_key':
+      return `⚠️  file path unknown (missing values for the key template)`;
+    case 'not_configured':
+      return `storage not configured`;
+    case 'failed':
+      return `⚠️  storage check failed: ${object.error}`;
+  }
+}
+
+export const AI_VIDEO_ACTIONS = ['delete', 'regenerate'] as const;
+
+export type AiVideoAction = typeof AI_VIDEO_ACTIONS[number];
+
+export const aiVideoResultSchema = z.object({
+  vehicle: vehicleSummarySchema,
+  status: z.enum(['deleted', 'queued', 'failed']),
+  previousAiVideo: z.string().nullable(),
+  objectKey: z.string().nullable().describe("Object key that was deleted"),
+  error: z.string().optional(),
+});
+
+export type AiVideoResult = z.infer<typeof aiVideoResultSchema>;
+
+/**
+ * Delete the video file of each vehicle and clear `ai_video`; 'regenerate'
+ * also queues a new one. A vehicle whose file cannot be deleted is left
+ * unchanged and reported as failed, so the run can be repeated.
+ */
+export async function removeAiVideos(
+  repository: VehicleRepository,
+  storage: MediaStorage | null,
+  rows: VehicleRow[],
+  action: AiVideoAction
+): Promise<{ results: AiVideoResult[]; audit: { success: boolean; error?: string } }> {
+  const results: AiVideoResult[] = [];
+  const changes: AuditChanges = {};
+  const updatedAt = new Date().toISOString();
+
+  for (const row of rows) {
+    const objectKey = row.ai_video ? aiVideoKey(row) : null;
+    const fail = (error: string) => results.push({
+      vehicle: toVehicleSummary(row),
+      status: 'failed',
+      previousAiVideo: row.ai_video ?? null,
+      objectKey,
+      error,
+    });
+
+    if (row.ai_video && !objectKey) {
+      fail(missingKeyMessage());
+      continue;
+    }
+
+    if (objectKey) {
+      if (!storage) {
+        fail(`Media storage is not configured, cannot delete ${objectKey}`);
+        continue;
+      }
+      try {
+        await storage.deleteObject(objectKey);
+      } catch (err) {
+        fail(`Could not delete the file from ${storage.location}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        continue;
+      }
+    }
+
+    const values = {
+      ai_video: null,
+      ai_video_queued_at: action === 'regenerate' ? updatedAt : null,
+      updated_at: updatedAt,
+    };
+
+    const { data: updated, error } = await repository.updateVehicles([row.id], values, { columns: AI_VIDEO_COLUMNS });
+    if (error || updated.length !== 1) {
+      fail(`Error updating vehicle: ${error?.message || 'vehicle was not updated'}`);
+      continue;
+    }
+
+    changes[row.id] = diffColumns(row, updated[0], ['ai_video', 'ai_video_queued_at']);
+    results.push({
+      vehicle: toVehicleSummary(updated[0]),
+      status: action === 'regenerate' ? 'queued' : 'deleted',
+      previousAiVideo: row.ai_video ?? null,
+      objectKey,
+    });
+  }
+
+  const audit = await recordAudit(repository, { tool: `${action}-ai-videos`, changes });
+
+  return { results, audit };
+}
+
+export function formatAiVideoResults(results: AiVideoResult[]): string {
+  return results.map((result, i) => {
+    const { vehicle } = result;
+    const label = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+    const outcome = result.status === 'failed'
+      ? `❌ Failed: ${result.error}`
+      : result.status === 'queued'
+        ? `⏳ Queued for regeneration${result.objectKey ? `, deleted ${result.objectKey}` : ''}`
+        : `✅ Deleted${result.objectKey ? ` ${result.objectKey}` : ''}`;
+    return `${i + 1}. ${label} (ID: ${vehicle.id}, Stock Number: ${vehicle.stock_number || 'N/A'})\n   ${outcome}`;
+  }).join('\n');
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { readFileSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+import { hashApiKey } from "./auth";
+import { ROLES } from "./permissions";
+import { rateLimitsSchema } from "./rate-limit";
+
+const apiKeyRecordSchema = z.object({
+  name: z.string().min(1),
+  keyHash: z.string().regex(/^[0-9a-f]{64}$/, "must be the SHA-256 hex digest of the key"),
+  role: z.enum(ROLES),
+  tools: z.array(z.string()).optional(),
+  limits: rateLimitsSchema.optional().describe("Overrides of the default rate limits"),
+});
+
+export type ApiKeyRecord = z.infer<typeof apiKeyRecordSchema>;
+
+let registry: ApiKeyRecord[] | null = null;
+
+/**
+ * Keys accepted by the HTTP transport, stored as SHA-256 hashes:
+ * - API_KEYS: JSON array of { name, keyHash, role, tools?, limits? }
+ * - API_KEYS_FILE: path to a JSON file with the same array
+ * - API_KEY (legacy): a single plain key with the admin role, named API_KEY_NAME
+ *
+ * An invalid registry is logged and rejects every key except the legacy one.
+ */
+export function loadApiKeys(): ApiKeyRecord[] {
+  if (registry) return registry;
+
+  const keys: ApiKeyRecord[] = [];
+
+  try {
+    const source = process.env.API_KEYS
+      ?? (process.env.API_KEYS_FILE ? readFileSync(process.env.API_KEYS_FILE, 'utf8') : null);
+
+    if (source) {
+      keys.push(...z.array(apiKeyRecordSchema).parse(JSON.parse(source)));
+    }
+  } catch (err) {
+    console.error(`Invalid API key registry: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  if (process.env.API_KEY) {
+    const keyHash = hashApiKey(process.env.API_KEY);
+    keys.push({
+      name: process.env.API_KEY_NAME || `api-key:${keyHash.substring(0, 8)}`,
+      keyHash,
+      role: 'admin',
+    });
+  }
+
+  registry = keys;
+  return registry;
+}
+
+/**
+ * Registry entry for a plain API key, or null when the key is unknown
+ */
+export function findApiKey(apiKey: string): ApiKeyRecord | null {
+  const hash = Buffer.from(hashApiKey(apiKey), 'hex');
+  return loadApiKeys().find(record => timingSafeEqual(Buffer.from(record.keyHash, 'hex'), hash)) ?? null;
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { getActor } from "./auth";
+import type { VehicleRepository } from "./repository";
+
+export const AUDIT_TABLE = 'vehicle_audit_log';
+
+const columnChangeSchema = z.object({
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+export const auditChangesSchema = z.record(z.record(columnChangeSchema))
+  .describe("Changed columns per vehicle id: { [vehicleId]: { [column]: { before, after } } }");
+
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+export const auditEntrySchema = z.object({
+  id: z.number(),
+  tool: z.string(),
+  actor: z.string(),
+  vehicle_ids: z.array(z.number()),
+  changes: auditChangesSchema,
+  created_at: z.string(),
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+/**
+ * Before/after diff of the given columns, keeping only the ones that changed.
+ * A missing `after` row (permanent delete) records every column as removed.
+ */
+export function diffColumns(
+  before: Record<string, any>,
+  after: Record<string, any> | null,
+  columns: string[] = Object.keys(before)
+): Record<string, { before: unknown; after: unknown }> {
+  const diff: Record<string, { before: unknown; after: unknown }> = {};
+
+  for (const column of columns) {
+    if (column === 'updated_at') continue;
+    const oldValue = before[column] ?? null;
+    const newValue = after ? after[column] ?? null : null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      diff[column] = { before: oldValue, after: newValue };
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Write an audit log entry for a tool call. Failures are logged and returned
+ * instead of thrown: the audited write has already happened at this point.
+ */
+export async function recordAudit(
+  repository: VehicleRepository,
+  { tool, changes }: { tool: string; changes: AuditChanges }
+): Promise<{ success: boolean; error?: string }> {
+  const vehicleIds = Object.keys(changes)
+    .filter(id => Object.keys(changes[id]).length > 0)
+    .map(Number);
+
+  if (vehicleIds.length === 0) {
+    return { success: true };
+  }
+
+  const { error } = await repository.insertAuditEntry({
+    tool,
+    actor: getActor(),
+    vehicle_ids: vehicleIds,
+    changes,
+  });
+
+  if (error) {
+    console.error(`Failed to write audit log entry for ${tool}: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export function auditWarning(result: { success: boolean; error?: string }): string {
+  return result.success ? '' : `\n\n⚠️  Warning: The change was applied but could not be recorded in the audit log: ${result.error}`;
+}
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { headers } from "xmcp/headers";
+import { ROLES, type Role } from "./permissions";
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Headers set by the middleware with the name and role of the authenticated
+ * API key. Any value sent by the client is overwritten.
+ */
+export const ACTOR_HEADER = 'x-mcp-actor';
+export const ROLE_HEADER = 'x-mcp-role';
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Identity of the caller of the current tool call. Requests over STDIO have no
+ * API key and are attributed to STDIO_ACTOR (default 'stdio').
+ */
+export function getActor(): string {
+  try {
+    const actor = headers()[ACTOR_HEADER];
+    if (typeof actor === 'string' && actor) return actor;
+  } catch {
+    // Not inside an HTTP request (STDIO transport)
+  }
+  return process.env.STDIO_ACTOR || 'stdio';
+}
+
+/**
+ * Role of the caller of the current tool call. The STDIO transport is a local
+ * process and gets the admin role.
+ */
+export function getCallerRole(): Role {
+  try {
+    const role = headers()[ROLE_HEADER];
+    if (typeof role === 'string') {
+      return ROLES.includes(role as Role) ? role as Role : 'viewer';
+    }
+  } catch {
+    // Not inside an HTTP request (STDIO transport)
+  }
+  return 'admin';
+}
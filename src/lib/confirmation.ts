@@ -0,0 +1,70 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Short-lived confirmation tokens for bulk writes.
+ *
+ * A preview issues a token bound to the exact set of vehicles and changes it
+ * showed; the write only runs when the same token comes back before it
+ * expires and the filters still match the same vehicles. Tokens are signed
+ * with CONFIRMATION_TOKEN_SECRET, or with a per-process secret when unset
+ * (tokens then stop working after a restart).
+ */
+
+export const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+const secret = process.env.CONFIRMATION_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+type ConfirmationSubject = {
+  scope: string;
+  vehicleIds: number[];
+  changes: unknown;
+};
+
+function digestSubject({ scope, vehicleIds, changes }: ConfirmationSubject): string {
+  const ids = [...vehicleIds].sort((a, b) => a - b);
+  return createHash('sha256').update(JSON.stringify([scope, ids, changes])).digest('base64url');
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function issueConfirmationToken(subject: ConfirmationSubject): { token: string; expiresAt: string } {
+  const expiresAt = Date.now() + CONFIRMATION_TOKEN_TTL_MS;
+  const payload = `${expiresAt}.${digestSubject(subject)}`;
+
+  return {
+    token: `${payload}.${sign(payload)}`,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Check a token against the write about to run. Returns an error message when it cannot be used.
+ */
+export function verifyConfirmationToken(token: string, subject: ConfirmationSubject): { valid: true } | { valid: false; error: string } {
+  const [expiresAt, digest, signature] = token.split('.');
+
+  if (!expiresAt || !digest || !signature) {
+    return { valid: false, error: `Invalid confirmation token. Run a preview first and pass back its 'confirmationToken'.` };
+  }
+
+  const expected = Buffer.from(sign(`${expiresAt}.${digest}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, error: `Invalid confirmation token. Run a preview first and pass back its 'confirmationToken'.` };
+  }
+
+  if (Date.now() > Number(expiresAt)) {
+    return { valid: false, error: `The confirmation token has expired. Run the preview again to get a new one.` };
+  }
+
+  if (digest !== digestSubject(subject)) {
+    return {
+      valid: false,
+      error: `The confirmation token does not match this update. Either the changes differ from the preview or the filters now match different vehicles. Run the preview again.`,
+    };
+  }
+
+  return { valid: true };
+}
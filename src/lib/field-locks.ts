@@ -0,0 +1,36 @@
+import { VAUTO_COLUMNS } from "./vauto-feed";
+
+/**
+ * Per-vehicle field locks. A locked column keeps the value set through our
+ * tools when the vAuto feed is imported. Locks are kept in the
+ * `locked_fields` column of each vehicle.
+ */
+
+// Columns the feed would overwrite; the VIN is the import key and cannot be locked
+export const LOCKABLE_FIELDS = VAUTO_COLUMNS.filter(column => column !== 'vin') as [string, ...string[]];
+
+export function isLockable(column: string): boolean {
+  return LOCKABLE_FIELDS.includes(column);
+}
+
+export function getLockedFields(vehicle: Record<string, any>): string[] {
+  return Array.isArray(vehicle.locked_fields) ? vehicle.locked_fields : [];
+}
+
+/**
+ * Locks of the vehicle plus the lockable ones among `columns`, sorted
+ */
+export function addLockedFields(vehicle: Record<string, any>, columns: string[]): string[] {
+  return [...new Set([...getLockedFields(vehicle), ...columns.filter(isLockable)])].sort();
+}
+
+/**
+ * Locks of the vehicle without `columns` (all of them when omitted)
+ */
+export function removeLockedFields(vehicle: Record<string, any>, columns?: string[]): string[] {
+  return columns ? getLockedFields(vehicle).filter(column => !columns.includes(column)) : [];
+}
+
+export function sameFields(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(column => b.includes(column));
+}
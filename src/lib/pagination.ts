@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { createHash } from 'crypto';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const paginationSchema = {
+  pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe(`Number of results per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`),
+  page: z.number().int().min(1).optional().describe("Page number to return, starting at 1. Ignored when 'cursor' is provided"),
+  cursor: z.string().optional().describe("Opaque cursor from a previous response ('nextCursor') to fetch the following page with the same filters and sorting"),
+};
+
+export const pageInfoSchema = z.object({
+  total: z.number().describe("Total number of rows matching the filters"),
+  page: z.number().describe("Current page number, starting at 1"),
+  pageSize: z.number().describe("Rows per page"),
+  totalPages: z.number().describe("Total number of pages"),
+  hasMore: z.boolean().describe("Whether there are more rows after this page"),
+  nextCursor: z.string().nullable().describe("Cursor to pass back to fetch the next page, or null on the last page"),
+  nextPage: z.number().nullable().describe("Next page number, or null on the last page"),
+});
+
+export type PageInfo = z.infer<typeof pageInfoSchema>;
+
+type CursorPayload = {
+  offset: number;
+  fingerprint: string;
+};
+
+/**
+ * Fingerprint of the filters and sorting a cursor was issued for, so a cursor
+ * cannot be replayed against a different query
+ */
+export function queryFingerprint(query: Record<string, unknown>): string {
+  const normalized = Object.keys(query)
+    .sort()
+    .filter(key => query[key] !== undefined)
+    .map(key => [key, query[key]]);
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').substring(0, 12);
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof payload?.offset !== 'number' || payload.offset < 0 || typeof payload?.fingerprint !== 'string') {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the row offset to start from. Returns an error message when the cursor is invalid
+ * or was issued for another query.
+ */
+export function resolveOffset(
+  { page, cursor }: { page?: number; cursor?: string },
+  pageSize: number,
+  fingerprint: string
+): { offset: number } | { error: string } {
+  if (cursor) {
+    const payload = decodeCursor(cursor);
+    if (!payload) {
+      return { error: `Invalid cursor. Use the 'nextCursor' value returned by a previous call.` };
+    }
+    if (payload.fingerprint !== fingerprint) {
+      return { error: `This cursor was issued for different filters or sorting. Repeat the original filters or start again without a cursor.` };
+    }
+    return { offset: payload.offset };
+  }
+
+  return { offset: ((page || 1) - 1) * pageSize };
+}
+
+export function buildPageInfo(total: number, offset: number, pageSize: number, fingerprint: string): PageInfo {
+  const nextOffset = offset + pageSize;
+  const hasMore = nextOffset < total;
+
+  return {
+    total,
+    page: Math.floor(offset / pageSize) + 1,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    hasMore,
+    nextCursor: hasMore ? encodeCursor({ offset: nextOffset, fingerprint }) : null,
+    nextPage: hasMore ? Math.floor(nextOffset / pageSize) + 1 : null,
+  };
+}
@@ -0,0 +1,73 @@
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+/**
+ * What a tool can do: 'read' only reads, 'write' changes data, 'admin' is
+ * destructive or exposes other callers' data
+ */
+export type ToolAccess = 'read' | 'write' | 'admin';
+
+/**
+ * Access level of every tool. Tools missing here are treated as 'admin', so a
+ * new tool is only available to admins until it is listed.
+ */
+export const TOOL_ACCESS: Record<string, ToolAccess> = {
+  'get-vehicles': 'read',
+  'get-vehicle': 'read',
+  'inventory-stats': 'read',
+  'list-deleted-vehicles': 'read',
+  'get-price-history': 'read',
+  'get-api-usage': 'read',
+  'list-suppressed-vins': 'read',
+  'search-vehicles': 'read',
+  'decode-vin': 'read',
+  'list-ai-videos': 'read',
+  'check-ai-video': 'read',
+  'list-notes': 'read',
+  'search-notes': 'read',
+  'list-tags': 'read',
+
+  'update-vehicles': 'write',
+  'add-notes': 'write',
+  'edit-note': 'write',
+  'delete-note': 'write',
+  'add-tags': 'write',
+  'remove-tags': 'write',
+  'restore-vehicle': 'write',
+  'revert-price': 'write',
+  'lock-fields': 'write',
+  'unlock-fields': 'write',
+  'suppress-vin': 'write',
+  'unsuppress-vin': 'write',
+  'export-vehicles': 'write',
+  'import-updates': 'write',
+
+  // Lists every caller's name and the before/after data of every write
+  'get-audit-log': 'admin',
+  'delete-vehicle': 'admin',
+  'delete-ai-video': 'admin',
+  'delete-ai-videos': 'admin',
+  'reconcile-storage': 'admin',
+  'regenerate-ai-videos': 'admin',
+  'import-vauto-feed': 'admin',
+};
+
+const ROLE_ACCESS: Record<Role, ToolAccess[]> = {
+  viewer: ['read'],
+  editor: ['read', 'write'],
+  admin: ['read', 'write', 'admin'],
+};
+
+export function getToolAccess(toolName: string): ToolAccess {
+  return TOOL_ACCESS[toolName] ?? 'admin';
+}
+
+/**
+ * Whether a caller may use a tool: the role must grant the tool's access level,
+ * and when an allow-list is given the tool must also be on it
+ */
+export function canUseTool({ role, tools }: { role: Role; tools?: string[] }, toolName: string): boolean {
+  if (!ROLE_ACCESS[role].includes(getToolAccess(toolName))) return false;
+  return !tools || tools.includes(toolName);
+}
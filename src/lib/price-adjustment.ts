@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+export const ROUNDING_MODES = ['none', 'nearest_100', 'nearest_1000', 'ending_99'] as const;
+
+export type RoundingMode = typeof ROUNDING_MODES[number];
+
+export const priceAdjustmentSchema = {
+  adjustPercent: z.number().optional().describe("Change the price of each vehicle by this percentage of its current value (e.g. -3 for a 3% drop)"),
+  adjustAmount: z.number().optional().describe("Change the price of each vehicle by this dollar amount (e.g. -1000)"),
+  adjustField: z.enum(['price', 'custom_price']).optional().describe("Which price the adjustment applies to (default 'price')"),
+  rounding: z.enum(ROUNDING_MODES).optional().describe("Round adjusted prices: 'nearest_100', 'nearest_1000' or 'ending_99' (e.g. 84,499). Default 'none'"),
+};
+
+export type PriceAdjustment = {
+  percent?: number;
+  amount?: number;
+  rounding?: RoundingMode;
+};
+
+export function roundPrice(value: number, rounding: RoundingMode = 'none'): number {
+  switch (rounding) {
+    case 'nearest_100':
+      return Math.round(value / 100) * 100;
+    case 'nearest_1000':
+      return Math.round(value / 1000) * 1000;
+    case 'ending_99':
+      // Nearest $100, then drop a dollar: 84,460 -> 84,499
+      return Math.max(99, Math.round((value + 1) / 100) * 100 - 1);
+    default:
+      return Math.round(value * 100) / 100;
+  }
+}
+
+/**
+ * New price for a vehicle relative to its own current price
+ */
+export function adjustPrice(current: number, { percent, amount, rounding }: PriceAdjustment): number {
+  let value = current;
+  if (percent !== undefined) value = value * (1 + percent / 100);
+  if (amount !== undefined) value = value + amount;
+  return Math.max(0, roundPrice(value, rounding));
+}
+
+export function describeAdjustment({ percent, amount, rounding }: PriceAdjustment): string {
+  const parts: string[] = [];
+  if (percent !== undefined) parts.push(`${percent > 0 ? '+' : ''}${percent}%`);
+  if (amount !== undefined) parts.push(`${amount >= 0 ? '+' : '-'}$${Math.abs(amount).toLocaleString()}`);
+  if (rounding && rounding !== 'none') parts.push(`rounded ${rounding.replace('_', ' ')}`);
+  return parts.join(', ');
+}
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRepository, setRepository } from "./repository";
+import { findUnrecordedPriceChanges, syncPriceHistory } from "./price-history";
+import getPriceHistory from "../tools/get-price-history";
+import revertPrice from "../tools/revert-price";
+
+const history = (id: number, vehicleId: number, newValue: number, changedAt: string) => ({
+  id, vehicle_id: vehicleId, field: 'price' as const, old_value: null, new_value: newValue,
+  source: 'update-vehicles', actor: 'alice', changed_at: changedAt,
+});
+
+test('unrecorded changes are compared with the latest entry only', async () => {
+  const repository = createMemoryRepository({
+    priceHistory: [
+      history(1, 1, 100000, '2026-01-01T00:00:00Z'),
+      history(2, 1, 110000, '2026-02-01T00:00:00Z'),
+      history(3, 1, 90000, '2026-01-15T00:00:00Z'),
+    ],
+  });
+
+  const { data } = await findUnrecordedPriceChanges(repository, [
+    { id: 1, price: 110000 },
+    { id: 2, price: 50000 },
+  ]);
+
+  assert.deepEqual(data?.changes, []);
+  assert.deepEqual(data?.baselines, [{ vehicleId: 2, field: 'price', oldValue: null, newValue: 50000 }]);
+});
+
+test('syncPriceHistory records a change made outside the tools once', async () => {
+  const repository = createMemoryRepository({ priceHistory: [history(1, 1, 100000, '2026-01-01T00:00:00Z')] });
+
+  await syncPriceHistory(repository, [{ id: 1, price: 95000 }]);
+  await syncPriceHistory(repository, [{ id: 1, price: 95000 }]);
+
+  const { data } = await repository.findPriceHistory({ vehicleIds: [1] });
+  assert.deepEqual(data?.map(entry => [entry.source, entry.old_value, entry.new_value]), [
+    ['vauto-sync', 100000, 95000],
+    ['update-vehicles', null, 100000],
+  ]);
+});
+
+test('get-price-history records a change vAuto made since the last entry', async () => {
+  const repository = createMemoryRepository({
+    vehicles: [{ id: 1, vin: 'ZFF79ALA0J0229876', stock_number: 'F1001', price: 240000 }],
+    priceHistory: [history(1, 1, 250000, '2026-01-01T00:00:00Z')],
+  });
+  setRepository(repository);
+
+  const result = await getPriceHistory({ id: 1, vin: undefined, stockNumber: undefined, field: undefined, since: undefined });
+
+  assert.ok(!('isError' in result));
+  const { data } = await repository.findPriceHistory({ vehicleIds: [1] });
+  assert.deepEqual(data?.map(entry => [entry.source, entry.old_value, entry.new_value]), [
+    ['vauto-sync', 250000, 240000],
+    ['update-vehicles', null, 250000],
+  ]);
+});
+
+test('revert-price locks the restored price unless lockFields is false', async () => {
+  const repository = createMemoryRepository({
+    vehicles: [
+      { id: 1, vin: 'ZFF79ALA0J0229876', stock_number: 'F1001', price: 240000, locked_fields: ['colour'] },
+      { id: 2, vin: 'WP0AB2A99KS123456', stock_number: 'P2002', price: 140000 },
+    ],
+    priceHistory: [
+      { ...history(1, 1, 240000, '2026-01-01T00:00:00Z'), old_value: 250000 },
+      { ...history(2, 2, 140000, '2026-01-01T00:00:00Z'), old_value: 150000 },
+    ],
+  });
+  setRepository(repository);
+
+  await revertPrice({ historyEntryId: 1, value: undefined, lockFields: undefined });
+  await revertPrice({ historyEntryId: 2, value: undefined, lockFields: false });
+
+  const { data } = await repository.findVehicles({ ids: [1, 2], columns: ['id', 'price', 'locked_fields'] });
+  assert.deepEqual(data?.map(row => [row.price, row.locked_fields ?? []]), [
+    [250000, ['colour', 'price']],
+    [150000, []],
+  ]);
+});
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { getActor } from "./auth";
+import type { VehicleRepository, RepositoryResult } from "./repository";
+
+export const PRICE_HISTORY_TABLE = 'vehicle_price_history';
+
+// Latest entry per vehicle and field (see the vehicle_price_history_latest migration)
+export const PRICE_HISTORY_LATEST_VIEW = 'vehicle_price_history_latest';
+
+export const PRICE_FIELDS = ['price', 'custom_price'] as const;
+
+export type PriceField = typeof PRICE_FIELDS[number];
+
+export const priceHistoryEntrySchema = z.object({
+  id: z.number(),
+  vehicle_id: z.number(),
+  field: z.enum(PRICE_FIELDS),
+  old_value: z.number().nullable(),
+  new_value: z.number().nullable(),
+  source: z.string().describe("Tool that made the change, 'vauto-sync' or 'baseline'"),
+  actor: z.string(),
+  changed_at: z.string(),
+});
+
+export type PriceHistoryEntry = z.infer<typeof priceHistoryEntrySchema>;
+
+export type PriceChange = {
+  vehicleId: number;
+  field: PriceField;
+  oldValue: number | null;
+  newValue: number | null;
+};
+
+// Actor recorded for changes that come from the vAuto feed
+export const VAUTO_ACTOR = 'vauto';
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * Price changes between two versions of the same vehicle rows
+ */
+export function diffPrices(before: Record<string, any>[], after: Record<string, any>[]): PriceChange[] {
+  const changes: PriceChange[] = [];
+
+  for (const row of after) {
+    const previous = before.find(b => b.id === row.id);
+    if (!previous) continue;
+    for (const field of PRICE_FIELDS) {
+      if (!(field in row)) continue;
+      const oldValue = toNumber(previous[field]);
+      const newValue = toNumber(row[field]);
+      if (oldValue !== newValue) {
+        changes.push({ vehicleId: row.id, field, oldValue, newValue });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append price changes to the history. Failures are logged and returned, never thrown.
+ */
+export async function recordPriceChanges(
+  repository: VehicleRepository,
+  { source, actor = getActor(), changes }: { source: string; actor?: string; changes: PriceChange[] }
+): Promise<{ success: boolean; error?: string }> {
+  if (changes.length === 0) {
+    return { success: true };
+  }
+
+  const { error } = await repository.insertPriceHistory(
+    changes.map(change => ({
+      vehicle_id: change.vehicleId,
+      field: change.field,
+      old_value: change.oldValue,
+      new_value: change.newValue,
+      source,
+      actor,
+    }))
+  );
+
+  if (error) {
+    console.error(`Failed to record price history for ${source}: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Differences between the current prices of the given vehicles and the last
+ * value in their history, e.g. after a vAuto refresh. Vehicles without history
+ * get a baseline instead. Only reads: see syncPriceHistory to record them.
+ */
+export async function findUnrecordedPriceChanges(
+  repository: VehicleRepository,
+  vehicles: Record<string, any>[]
+): Promise<RepositoryResult<{ changes: PriceChange[]; baselines: PriceChange[] }>> {
+  const rows = vehicles.filter(v => typeof v.id === 'number' && PRICE_FIELDS.some(field => field in v));
+  if (rows.length === 0) return { data: { changes: [], baselines: [] }, error: null };
+
+  const { data: history, error } = await repository.findLatestPriceHistory(rows.map(v => v.id));
+  if (error) return { data: null, error };
+
+  const latest = new Map(history.map(entry => [`${entry.vehicle_id}:${entry.field}`, toNumber(entry.new_value)]));
+  const changes: PriceChange[] = [];
+  const baselines: PriceChange[] = [];
+
+  for (const row of rows) {
+    for (const field of PRICE_FIELDS) {
+      if (!(field in row)) continue;
+      const current = toNumber(row[field]);
+      const key = `${row.id}:${field}`;
+
+      if (!latest.has(key)) {
+        if (current !== null) baselines.push({ vehicleId: row.id, field, oldValue: null, newValue: current });
+      } else if (latest.get(key) !== current) {
+        changes.push({ vehicleId: row.id, field, oldValue: latest.get(key)!, newValue: current });
+      }
+    }
+  }
+
+  return { data: { changes, baselines }, error: null };
+}
+
+/**
+ * Record the unrecorded price changes of the given vehicles as vAuto sync
+ * changes, and baselines for vehicles without history. Called by the tools
+ * that read vehicles, so a change only vAuto makes still reaches the history,
+ * and by the tools that write prices before they write, so the history shows
+ * which value they replaced. Failures are logged and never fail the caller.
+ */
+export async function syncPriceHistory(
+  repository: VehicleRepository,
+  vehicles: Record<string, any>[]
+): Promise<void> {
+  try {
+    const { data, error } = await findUnrecordedPriceChanges(repository, vehicles);
+
+    if (error) {
+      console.error(`Failed to read price history: ${error.message}`);
+      return;
+    }
+
+    await recordPriceChanges(repository, { source: 'vauto-sync', actor: VAUTO_ACTOR, changes: data.changes });
+    await recordPriceChanges(repository, { source: 'baseline', actor: VAUTO_ACTOR, changes: data.baselines });
+  } catch (err) {
+    console.error(`Failed to sync price history: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+}
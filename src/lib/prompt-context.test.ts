@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRepository, setRepository } from "./repository";
+import reviewVehiclePrice from "../prompts/review-vehicle-price";
+
+test('review-vehicle-price compares with the same make and model only', async () => {
+  setRepository(createMemoryRepository({
+    vehicles: [
+      { id: 1, vin: 'WP0AB2A99KS123456', stock_number: 'P1001', year: 2019, make: 'Porsche', model: '911', price: 120000 },
+      { id: 2, vin: 'WP0AB2A99KS123457', stock_number: 'P1002', year: 2019, make: 'porsche', model: '911 ', price: 110000 },
+      { id: 3, vin: 'WP0AB2A99KS123458', stock_number: 'P1003', year: 2019, make: 'Porsche', model: '911 Turbo S', price: 230000 },
+    ],
+  }));
+
+  const prompt = await reviewVehiclePrice({ vin: undefined, stockNumber: 'P1001', yearRange: undefined });
+
+  assert.match(prompt, /1 of 1 priced comparables are cheaper/);
+  assert.doesNotMatch(prompt, /P1003/);
+});
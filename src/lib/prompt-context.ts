@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { getRepository, type VehicleRepository, type VehicleRow } from "./repository";
+import { missingCredentialsError } from "./tool-result";
+import { findVehicle } from "./vehicle-lookup";
+
+/**
+ * Prompt arguments identifying the vehicle. MCP prompt arguments are always strings.
+ */
+export const promptVehicleSchema = {
+  vin: z.string().optional().describe("VIN of the vehicle (or use stockNumber)"),
+  stockNumber: z.string().optional().describe("Stock number of the vehicle (or use vin)"),
+};
+
+/**
+ * Load the vehicle a prompt is about. Prompts have no error result, so
+ * problems are thrown with the message the tools would return.
+ */
+export async function loadPromptVehicle(
+  { vin, stockNumber }: { vin?: string; stockNumber?: string }
+): Promise<{ repository: VehicleRepository; vehicle: VehicleRow }> {
+  if (!vin === !stockNumber) {
+    throw new Error(`Please provide either 'vin' or 'stockNumber' to identify the vehicle.`);
+  }
+
+  const repository = getRepository();
+  if (!repository) {
+    throw new Error(missingCredentialsError().structuredContent.error.message);
+  }
+
+  const found = await findVehicle(repository, vin ? { vin } : { stockNumber });
+  if (found.error) {
+    throw new Error(found.error.structuredContent.error.message);
+  }
+
+  return { repository, vehicle: found.vehicle };
+}
+
+export function formatPrice(value: unknown): string {
+  return typeof value === 'number' ? `$${value.toLocaleString()}` : 'not set';
+}
+
+export function vehicleTitle(vehicle: VehicleRow): string {
+  return [vehicle.year, vehicle.make, vehicle.model, vehicle.series].filter(Boolean).join(' ') || `Vehicle ${vehicle.id}`;
+}
+
+/**
+ * Facts about a vehicle for a prompt, leaving out empty columns
+ */
+export function formatVehicleFacts(vehicle: VehicleRow): string {
+  const facts: [string, unknown][] = [
+    ['Vehicle', vehicleTitle(vehicle)],
+    ['Series Detail', vehicle.series_detail],
+    ['VIN', vehicle.vin],
+    ['Stock Number', vehicle.stock_number],
+    ['Condition', vehicle.new_used],
+    ['Certified', vehicle.certified],
+    ['Price', typeof vehicle.price === 'number' ? formatPrice(vehicle.price) : null],
+    ['Custom Price', typeof vehicle.custom_price === 'number' ? formatPrice(vehicle.custom_price) : null],
+    ['MSRP', typeof vehicle.msrp === 'number' ? formatPrice(vehicle.msrp) : null],
+    ['Mileage', typeof vehicle.odometer === 'number' ? `${vehicle.odometer.toLocaleString()} miles` : null],
+    ['Exterior Color', vehicle.colour],
+    ['Interior Color', vehicle.interior_color],
+    ['Body Type', vehicle.body],
+    ['Engine', vehicle.engine],
+    ['Transmission', vehicle.transmission],
+    ['Drivetrain', vehicle.drivetrain_desc],
+    ['Fuel Type', vehicle.fuel],
+    ['Days in Inventory', vehicle.age],
+    ['Dealer', vehicle.dealer_name],
+  ];
+
+  const lines = facts
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([label, value]) => `- ${label}: ${value}`);
+
+  if (Array.isArray(vehicle.features) && vehicle.features.length > 0) {
+    lines.push(`- Features:\n${vehicle.features
+      .map(feature => `  - ${typeof feature === 'object' ? JSON.stringify(feature) : feature}`)
+      .join('\n')}`);
+  }
+
+  if (vehicle.description) {
+    lines.push(`- Dealer Description: ${vehicle.description}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Price shown to customers: the custom price overrides the vAuto price
+ */
+export function advertisedPrice(vehicle: VehicleRow): number | null {
+  if (typeof vehicle.custom_price === 'number') return vehicle.custom_price;
+  return typeof vehicle.price === 'number' ? vehicle.price : null;
+}
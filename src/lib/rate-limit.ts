@@ -0,0 +1,181 @@
+import { z } from "zod";
+
+/**
+ * Budgets of a tool call: 'read' tools and everything else ('write')
+ */
+export type RateLimitBudget = 'read' | 'write';
+
+export const rateLimitsSchema = z.object({
+  readPerMinute: z.number().positive().optional(),
+  writePerMinute: z.number().positive().optional(),
+  dailyQuota: z.number().int().min(0).optional().describe("Tool calls per UTC day, 0 for no quota"),
+});
+
+export type RateLimits = Required<z.infer<typeof rateLimitsSchema>>;
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name] ? Number(process.env[name]) : NaN;
+  return isNaN(value) ? fallback : value;
+}
+
+/**
+ * Limits for keys without their own `limits` in the registry:
+ * RATE_LIMIT_READ_PER_MINUTE (60), RATE_LIMIT_WRITE_PER_MINUTE (10), RATE_LIMIT_DAILY_QUOTA (5000)
+ */
+export function getDefaultRateLimits(): RateLimits {
+  return {
+    readPerMinute: envNumber('RATE_LIMIT_READ_PER_MINUTE', 60),
+    writePerMinute: envNumber('RATE_LIMIT_WRITE_PER_MINUTE', 10),
+    dailyQuota: envNumber('RATE_LIMIT_DAILY_QUOTA', 5000),
+  };
+}
+
+export function resolveRateLimits(overrides?: z.infer<typeof rateLimitsSchema>): RateLimits {
+  return { ...getDefaultRateLimits(), ...overrides };
+}
+
+// Token bucket refilled continuously; holds at most one minute of calls
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+type KeyUsage = {
+  read: Bucket;
+  write: Bucket;
+  day: string;
+  dailyCalls: number;
+  totalCalls: number;
+  rejectedCalls: number;
+  lastCallAt: number | null;
+};
+
+export const budgetUsageSchema = z.object({
+  perMinute: z.number(),
+  available: z.number().describe("Calls that can be made right now"),
+});
+
+export const keyUsageSchema = z.object({
+  name: z.string(),
+  read: budgetUsageSchema,
+  write: budgetUsageSchema,
+  daily: z.object({
+    used: z.number(),
+    quota: z.number().describe("0 when there is no daily quota"),
+    resetsAt: z.string(),
+  }),
+  totalCalls: z.number().describe("Tool calls since the server started"),
+  rejectedCalls: z.number().describe("Tool calls rejected by the rate limit since the server started"),
+  lastCallAt: z.string().nullable(),
+});
+
+export type KeyUsageSnapshot = z.infer<typeof keyUsageSchema>;
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate' | 'quota'; retryAfterSeconds: number; message: string };
+
+// In-memory usage per API key name, reset when the server restarts
+const usage = new Map<string, KeyUsage>();
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().substring(0, 10);
+}
+
+function nextUtcMidnight(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function refill(bucket: Bucket, perMinute: number, now: number): void {
+  bucket.tokens = Math.min(perMinute, bucket.tokens + ((now - bucket.updatedAt) / 60000) * perMinute);
+  bucket.updatedAt = now;
+}
+
+function getUsage(name: string, limits: RateLimits, now: number): KeyUsage {
+  let entry = usage.get(name);
+  if (!entry) {
+    entry = {
+      read: { tokens: limits.readPerMinute, updatedAt: now },
+      write: { tokens: limits.writePerMinute, updatedAt: now },
+      day: utcDay(now),
+      dailyCalls: 0,
+      totalCalls: 0,
+      rejectedCalls: 0,
+      lastCallAt: null,
+    };
+    usage.set(name, entry);
+  }
+
+  refill(entry.read, limits.readPerMinute, now);
+  refill(entry.write, limits.writePerMinute, now);
+  if (entry.day !== utcDay(now)) {
+    entry.day = utcDay(now);
+    entry.dailyCalls = 0;
+  }
+
+  return entry;
+}
+
+/**
+ * Take one call from the key's budget, or explain when it may retry
+ */
+export function consumeRateLimit(
+  name: string,
+  limits: RateLimits,
+  budget: RateLimitBudget,
+  now: number = Date.now()
+): RateLimitResult {
+  const entry = getUsage(name, limits, now);
+
+  if (limits.dailyQuota > 0 && entry.dailyCalls >= limits.dailyQuota) {
+    entry.rejectedCalls++;
+    return {
+      allowed: false,
+      reason: 'quota',
+      retryAfterSeconds: Math.ceil((nextUtcMidnight(now) - now) / 1000),
+      message: `Daily quota of ${limits.dailyQuota} tool calls exceeded. It resets at ${new Date(nextUtcMidnight(now)).toISOString()}.`,
+    };
+  }
+
+  const bucket = entry[budget];
+  const perMinute = budget === 'read' ? limits.readPerMinute : limits.writePerMinute;
+
+  if (bucket.tokens < 1) {
+    entry.rejectedCalls++;
+    const retryAfterSeconds = Math.ceil(((1 - bucket.tokens) / perMinute) * 60);
+    return {
+      allowed: false,
+      reason: 'rate',
+      retryAfterSeconds,
+      message: `Rate limit of ${perMinute} ${budget} tool calls per minute exceeded. Retry after ${retryAfterSeconds} second(s).`,
+    };
+  }
+
+  bucket.tokens -= 1;
+  entry.dailyCalls++;
+  entry.totalCalls++;
+  entry.lastCallAt = now;
+  return { allowed: true };
+}
+
+/**
+ * Current usage of a key, without consuming anything
+ */
+export function getKeyUsage(name: string, limits: RateLimits, now: number = Date.now()): KeyUsageSnapshot {
+  const entry = getUsage(name, limits, now);
+
+  return {
+    name,
+    read: { perMinute: limits.readPerMinute, available: Math.floor(entry.read.tokens) },
+    write: { perMinute: limits.writePerMinute, available: Math.floor(entry.write.tokens) },
+    daily: {
+      used: entry.dailyCalls,
+      quota: limits.dailyQuota,
+      resetsAt: new Date(nextUtcMidnight(now)).toISOString(),
+    },
+    totalCalls: entry.totalCalls,
+    rejectedCalls: entry.rejectedCalls,
+    lastCallAt: entry.lastCallAt ? new Date(entry.lastCallAt).toISOString() : null,
+  };
+}
@@ -0,0 +1,70 @@
+import { createSupabaseRepositoryFromEnv } from "./supabase";
+import { createMemoryRepository, loadFixtures } from "./memory";
+import type { DataSource, VehicleRepository, VehicleQuery, VehicleRow, RepositoryResult } from "./types";
+
+export * from "./types";
+export { createSupabaseRepository } from "./supabase";
+export { createMemoryRepository, loadFixtures, type MemoryFixtures } from "./memory";
+
+let repository: VehicleRepository | null = null;
+
+export function getDataSource(): DataSource {
+  return process.env.DATA_SOURCE === 'memory' ? 'memory' : 'supabase';
+}
+
+/**
+ * Repository shared by all tools, chosen by DATA_SOURCE:
+ * - 'supabase' (default): SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ * - 'memory': rows from the JSON file in VEHICLE_FIXTURES (or empty), kept in
+ *   process memory for offline demos and integration tests
+ *
+ * Returns null when the Supabase credentials are missing.
+ */
+export function getRepository(): VehicleRepository | null {
+  if (repository) return repository;
+
+  if (getDataSource() === 'memory') {
+    const fixturesPath = process.env.VEHICLE_FIXTURES;
+    repository = createMemoryRepository(fixturesPath ? loadFixtures(fixturesPath) : {});
+  } else {
+    repository = createSupabaseRepositoryFromEnv();
+  }
+
+  return repository;
+}
+
+/**
+ * Replace the shared repository, e.g. with a seeded in-memory one in tests
+ */
+export function setRepository(value: VehicleRepository | null): void {
+  repository = value;
+}
+
+// Supabase caps a single select at 1000 rows, so large reads are fetched in batches
+const BATCH_SIZE = 1000;
+
+/**
+ * Every vehicle matching the query, fetched in batches in stable id order
+ */
+export async function findAllVehicles(
+  repository: VehicleRepository,
+  query: Omit<VehicleQuery, 'orderBy' | 'offset' | 'limit'>
+): Promise<RepositoryResult<VehicleRow[]>> {
+  const rows: VehicleRow[] = [];
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data, error } = await repository.findVehicles({
+      ...query,
+      orderBy: [{ column: 'id', ascending: true }],
+      offset,
+      limit: BATCH_SIZE,
+    });
+
+    if (error) return { data: null, error };
+
+    rows.push(...data);
+    if (data.length < BATCH_SIZE) break;
+  }
+
+  return { data: rows, error: null };
+}
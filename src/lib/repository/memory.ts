@@ -0,0 +1,327 @@
+import { readFileSync } from 'fs';
+import { matchesVehicleFilters } from "../vehicle-filters";
+import { matchVehicleText, matchesText, parseSearchQuery } from "../text-search";
+import type { AuditEntry } from "../audit";
+import type { PriceHistoryEntry } from "../price-history";
+import type { VinSuppression } from "../vin-suppression";
+import { MIGRATED_NOTE_AUTHOR, type VehicleNote } from "../vehicle-notes";
+import type { VehicleRepository, VehicleQuery, VehicleRow, VehicleSearchHit, SortOrder } from "./types";
+
+/**
+ * Contents of a fixture file: either an array of vehicle rows or an object
+ * with the rows of every table
+ */
+export type MemoryFixtures = {
+  vehicles?: VehicleRow[];
+  auditLog?: AuditEntry[];
+  priceHistory?: PriceHistoryEntry[];
+  vinSuppressions?: VinSuppression[];
+  vehicleNotes?: VehicleNote[];
+};
+
+function pickColumns(row: VehicleRow, columns?: string[]): VehicleRow {
+  if (!columns || columns.length === 0) return { ...row };
+  return Object.fromEntries(columns.map(column => [column, row[column] ?? null]));
+}
+
+function timestamp(value: unknown): number {
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+/**
+ * Same ordering as Postgres: nulls last when ascending, first when descending
+ * unless `nullsFirst` says otherwise
+ */
+function compareRows(a: Record<string, any>, b: Record<string, any>, orderBy: SortOrder[]): number {
+  for (const { column, ascending, nullsFirst = !ascending } of orderBy) {
+    const x = a[column] ?? null;
+    const y = b[column] ?? null;
+    if (x === y) continue;
+    if (x === null) return nullsFirst ? -1 : 1;
+    if (y === null) return nullsFirst ? 1 : -1;
+    if (x < y) return ascending ? -1 : 1;
+    if (x > y) return ascending ? 1 : -1;
+  }
+  return 0;
+}
+
+function paginate<T>(rows: T[], offset?: number, limit?: number): T[] {
+  if (limit === undefined) return rows;
+  return rows.slice(offset || 0, (offset || 0) + limit);
+}
+
+function matchesDeleted(row: VehicleRow, deleted: VehicleQuery['deleted'] = 'exclude'): boolean {
+  const isDeleted = row.deleted_at !== null && row.deleted_at !== undefined;
+  if (deleted === 'exclude') return !isDeleted;
+  if (deleted === 'only') return isDeleted;
+  return true;
+}
+
+/**
+ * Repository kept in process memory, seeded from fixtures. Writes are not
+ * persisted and are lost when the server restarts.
+ */
+export function createMemoryRepository(fixtures: MemoryFixtures = {}): VehicleRepository {
+  const vehicles: VehicleRow[] = (fixtures.vehicles || []).map(row => ({ ...row }));
+  const auditLog: AuditEntry[] = [...(fixtures.auditLog || [])];
+  const priceHistory: PriceHistoryEntry[] = [...(fixtures.priceHistory || [])];
+  const vinSuppressions: VinSuppression[] = [...(fixtures.vinSuppressions || [])];
+
+  let nextVehicleId = Math.max(0, ...vehicles.map(row => row.id)) + 1;
+  let nextAuditId = Math.max(0, ...auditLog.map(entry => entry.id)) + 1;
+  const vehicleNotes: VehicleNote[] = [...(fixtures.vehicleNotes || [])];
+
+  let nextPriceHistoryId = Math.max(0, ...priceHistory.map(entry => entry.id)) + 1;
+  let nextNoteId = Math.max(0, ...vehicleNotes.map(note => note.id)) + 1;
+
+  // Same as the vehicle_notes migration: the notes of vehicles without entries become their first entry
+  for (const row of vehicles) {
+    if (typeof row.notes !== 'string' || !row.notes.trim() || vehicleNotes.some(note => note.vehicle_id === row.id)) continue;
+    vehicleNotes.push({
+      id: nextNoteId++,
+      vehicle_id: row.id,
+      body: row.notes,
+      category: null,
+      author: MIGRATED_NOTE_AUTHOR,
+      created_at: row.updated_at || new Date().toISOString(),
+      updated_at: null,
+      updated_by: null,
+    });
+  }
+
+  return {
+    name: 'memory',
+
+    async findVehicles({ id, ids, vin, stockNumber, filters, deleted, deletedSince, columns, orderBy, offset, limit }) {
+      const since = deletedSince ? Date.parse(deletedSince) : null;
+
+      const rows = vehicles
+        .filter(row =>
+          matchesDeleted(row, deleted) &&
+          (id === undefined || row.id === id) &&
+          (!ids || ids.includes(row.id)) &&
+          (vin === undefined || row.vin === vin) &&
+          (stockNumber === undefined || row.stock_number === stockNumber) &&
+          (since === null || timestamp(row.deleted_at) >= since) &&
+          (!filters || matchesVehicleFilters(row, filters))
+        )
+        .sort((a, b) => compareRows(a, b, orderBy || []));
+
+      return {
+        data: paginate(rows, offset, limit).map(row => pickColumns(row, columns)),
+        count: rows.length,
+        error: null,
+      };
+    },
+
+    async findVehiclesByVinOrStockNumber({ vin, stockNumber }, { deleted, columns } = {}) {
+      const rows = vehicles.filter(row =>
+        matchesDeleted(row, deleted) &&
+        ((!!vin && row.vin === vin) || (!!stockNumber && row.stock_number === stockNumber))
+      );
+      return { data: rows.map(row => pickColumns(row, columns)), error: null };
+    },
+
+    async insertVehicles(rows, { columns } = {}) {
+      const inserted: VehicleRow[] = [];
+      for (const row of rows) {
+        const vehicle = { ...row, id: nextVehicleId++ };
+        vehicles.push(vehicle);
+        inserted.push(pickColumns(vehicle, columns));
+      }
+      return { data: inserted, error: null };
+    },
+
+    async updateVehicles(ids, values, { columns } = {}) {
+      const updated: VehicleRow[] = [];
+      for (const row of vehicles) {
+        if (!ids.includes(row.id)) continue;
+        Object.assign(row, values);
+        updated.push(pickColumns(row, columns));
+      }
+      return { data: updated, error: null };
+    },
+
+    async deleteVehicles(ids) {
+      for (let i = vehicles.length - 1; i >= 0; i--) {
+        if (ids.includes(vehicles[i].id)) vehicles.splice(i, 1);
+      }
+      return { data: null, error: null };
+    },
+
+    async searchVehicles({ query, filters, columns, offset, limit }) {
+      const parsed = parseSearchQuery(query);
+      const hits: VehicleSearchHit[] = [];
+
+      for (const row of vehicles) {
+        if (!matchesDeleted(row) || (filters && !matchesVehicleFilters(row, filters))) continue;
+        const match = matchVehicleText(row, parsed);
+        if (match) hits.push({ vehicle: row, ...match });
+      }
+
+      hits.sort((a, b) => b.rank - a.rank || a.vehicle.id - b.vehicle.id);
+
+      return {
+        data: paginate(hits, offset, limit).map(hit => ({ ...hit, vehicle: pickColumns(hit.vehicle, columns) })),
+        count: hits.length,
+        error: null,
+      };
+    },
+
+    async insertAuditEntry(entry) {
+      auditLog.push({ ...entry, id: nextAuditId++, created_at: new Date().toISOString() });
+      return { data: null, error: null };
+    },
+
+    async findAuditEntries({ vehicleIds, tool, actor, since, until, offset, limit }) {
+      const sinceTime = since ? Date.parse(since) : null;
+      const untilTime = until ? Date.parse(until) : null;
+
+      const entries = auditLog
+        .filter(entry =>
+          (!vehicleIds || entry.vehicle_ids.some(id => vehicleIds.includes(id))) &&
+          (!tool || entry.tool === tool) &&
+          (!actor || entry.actor === actor) &&
+          (sinceTime === null || timestamp(entry.created_at) >= sinceTime) &&
+          (untilTime === null || timestamp(entry.created_at) <= untilTime)
+        )
+        .sort((a, b) => compareRows(a, b, [
+          { column: 'created_at', ascending: false },
+          { column: 'id', ascending: false },
+        ]));
+
+      return { data: paginate(entries, offset, limit), count: entries.length, error: null };
+    },
+
+    async insertPriceHistory(entries) {
+      const changedAt = new Date().toISOString();
+      for (const entry of entries) {
+        priceHistory.push({ ...entry, id: nextPriceHistoryId++, changed_at: changedAt });
+      }
+      return { data: null, error: null };
+    },
+
+    async findPriceHistory({ vehicleIds, field, since }) {
+      const sinceTime = since ? Date.parse(since) : null;
+
+      const entries = priceHistory
+        .filter(entry =>
+          vehicleIds.includes(entry.vehicle_id) &&
+          (!field || entry.field === field) &&
+          (sinceTime === null || timestamp(entry.changed_at) >= sinceTime)
+        )
+        .sort((a, b) => compareRows(a, b, [
+          { column: 'changed_at', ascending: false },
+          { column: 'id', ascending: false },
+        ]));
+
+      return { data: entries, error: null };
+    },
+
+    async findLatestPriceHistory(vehicleIds) {
+      const latest = new Map<string, PriceHistoryEntry>();
+      for (const entry of priceHistory) {
+        if (!vehicleIds.includes(entry.vehicle_id)) continue;
+        const key = `${entry.vehicle_id}:${entry.field}`;
+        const current = latest.get(key);
+        if (!current || compareRows(entry, current, [
+          { column: 'changed_at', ascending: false },
+          { column: 'id', ascending: false },
+        ]) < 0) {
+          latest.set(key, entry);
+        }
+      }
+
+      return { data: [...latest.values()], error: null };
+    },
+
+    async getPriceHistoryEntry(id) {
+      return { data: priceHistory.find(entry => entry.id === id) ?? null, error: null };
+    },
+
+    async findVinSuppressions(vins) {
+      const entries = vinSuppressions
+        .filter(entry => !vins || vins.includes(entry.vin))
+        .sort((a, b) => compareRows(a, b, [{ column: 'created_at', ascending: false }]));
+
+      return { data: entries, error: null };
+    },
+
+    async upsertVinSuppression(entry) {
+      const suppression = { ...entry, created_at: new Date().toISOString() };
+      const index = vinSuppressions.findIndex(existing => existing.vin === entry.vin);
+
+      if (index >= 0) vinSuppressions[index] = suppression;
+      else vinSuppressions.push(suppression);
+
+      return { data: suppression, error: null };
+    },
+
+    async deleteVinSuppressions(vins) {
+      const removed = vinSuppressions.filter(entry => vins.includes(entry.vin));
+      for (const entry of removed) vinSuppressions.splice(vinSuppressions.indexOf(entry), 1);
+      return { data: removed, error: null };
+    },
+
+    async insertNote(entry) {
+      const note: VehicleNote = {
+        ...entry,
+        id: nextNoteId++,
+        created_at: new Date().toISOString(),
+        updated_at: null,
+        updated_by: null,
+      };
+      vehicleNotes.push(note);
+      return { data: { ...note }, error: null };
+    },
+
+    async findNotes({ vehicleIds, category, author, text, since, until, offset, limit }) {
+      const sinceTime = since ? Date.parse(since) : null;
+      const untilTime = until ? Date.parse(until) : null;
+      const parsed = text ? parseSearchQuery(text) : null;
+
+      const notes = vehicleNotes
+        .filter(note =>
+          (!vehicleIds || vehicleIds.includes(note.vehicle_id)) &&
+          (!category || note.category === category) &&
+          (!author || note.author === author) &&
+          (!parsed || matchesText(note.body, parsed)) &&
+          (sinceTime === null || timestamp(note.created_at) >= sinceTime) &&
+          (untilTime === null || timestamp(note.created_at) <= untilTime)
+        )
+        .sort((a, b) => compareRows(a, b, [
+          { column: 'created_at', ascending: false },
+          { column: 'id', ascending: false },
+        ]));
+
+      return { data: paginate(notes, offset, limit).map(note => ({ ...note })), count: notes.length, error: null };
+    },
+
+    async getNote(id) {
+      const note = vehicleNotes.find(entry => entry.id === id);
+      return { data: note ? { ...note } : null, error: null };
+    },
+
+    async updateNote(id, values) {
+      const note = vehicleNotes.find(entry => entry.id === id);
+      if (!note) return { data: null, error: null };
+      Object.assign(note, values);
+      return { data: { ...note }, error: null };
+    },
+
+    async deleteNote(id) {
+      const index = vehicleNotes.findIndex(entry => entry.id === id);
+      if (index < 0) return { data: null, error: null };
+      const [removed] = vehicleNotes.splice(index, 1);
+      return { data: removed, error: null };
+    },
+  };
+}
+
+/**
+ * Load fixtures from a JSON file. A plain array is read as the vehicle rows.
+ */
+export function loadFixtures(path: string): MemoryFixtures {
+  const content = JSON.parse(readFileSync(path, 'utf8'));
+  return Array.isArray(content) ? { vehicles: content } : content;
+}
@@ -0,0 +1,380 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { applyVehicleFilters } from "../vehicle-filters";
+import { AUDIT_TABLE, type AuditEntry } from "../audit";
+import { PRICE_HISTORY_TABLE, PRICE_HISTORY_LATEST_VIEW, type PriceHistoryEntry } from "../price-history";
+import { VIN_SUPPRESSIONS_TABLE, type VinSuppression } from "../vin-suppression";
+import { NOTES_TABLE, type VehicleNote } from "../vehicle-notes";
+import type { VehicleRepository, VehicleQuery, VehicleRow, VehicleSearchHit } from "./types";
+
+export const VEHICLES_TABLE = 'vehicles';
+
+// Postgres function ranking vehicles for a search (see the vehicle_search migration)
+export const SEARCH_VEHICLES_FUNCTION = 'search_vehicles';
+
+// Ids per `in` filter, to keep request URLs short
+const ID_BATCH_SIZE = 200;
+
+// Rows per request, at the PostgREST max-rows cap
+const RPC_BATCH_SIZE = 1000;
+
+type SearchMatch = {
+  id: number;
+  rank: number;
+  snippet: string | null;
+  matched_fields: string[] | null;
+};
+
+function selectColumns(columns?: string[]): string {
+  return columns && columns.length > 0 ? columns.join(', ') : '*';
+}
+
+/**
+ * Value for a PostgREST `or()` filter string, quoted so commas, dots and
+ * parentheses in it are not read as syntax
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function applyDeletedFilter<T>(query: T, deleted: VehicleQuery['deleted'] = 'exclude'): T {
+  const q: any = query;
+  if (deleted === 'exclude') return q.is('deleted_at', null);
+  if (deleted === 'only') return q.not('deleted_at', 'is', null);
+  return q;
+}
+
+/**
+ * PostgREST returns numeric columns as strings
+ */
+function toPriceHistoryEntry(row: Record<string, any>): PriceHistoryEntry {
+  return {
+    ...row,
+    old_value: row.old_value === null ? null : Number(row.old_value),
+    new_value: row.new_value === null ? null : Number(row.new_value),
+  } as PriceHistoryEntry;
+}
+
+export function createSupabaseRepository(supabase: SupabaseClient): VehicleRepository {
+  return {
+    name: 'supabase',
+
+    async findVehicles({ id, ids, vin, stockNumber, filters, deleted, deletedSince, columns, orderBy, offset, limit }) {
+      let query = supabase.from(VEHICLES_TABLE).select(selectColumns(columns), { count: 'exact' });
+      query = applyDeletedFilter(query, deleted);
+
+      if (id !== undefined) query = query.eq('id', id);
+      if (ids) query = query.in('id', ids);
+      if (vin !== undefined) query = query.eq('vin', vin);
+      if (stockNumber !== undefined) query = query.eq('stock_number', stockNumber);
+      if (deletedSince) query = query.gte('deleted_at', new Date(deletedSince).toISOString());
+      if (filters) query = applyVehicleFilters(query, filters);
+
+      for (const order of orderBy || []) {
+        query = query.order(order.column, { ascending: order.ascending, nullsFirst: order.nullsFirst });
+      }
+
+      if (limit !== undefined) {
+        query = query.range(offset || 0, (offset || 0) + limit - 1);
+      }
+
+      const { data, error, count } = await query;
+      if (error) return { data: null, count: null, error };
+      return { data: (data || []) as unknown as VehicleRow[], count: count ?? 0, error: null };
+    },
+
+    async findVehiclesByVinOrStockNumber({ vin, stockNumber }, { deleted, columns } = {}) {
+      const conditions = [
+        vin ? `vin.eq.${quoteFilterValue(vin)}` : null,
+        stockNumber ? `stock_number.eq.${quoteFilterValue(stockNumber)}` : null,
+      ].filter(Boolean);
+
+      if (conditions.length === 0) return { data: [], error: null };
+
+      let query = supabase.from(VEHICLES_TABLE).select(selectColumns(columns));
+      query = applyDeletedFilter(query, deleted);
+
+      const { data, error } = await query.or(conditions.join(','));
+      if (error) return { data: null, error };
+      return { data: (data || []) as unknown as VehicleRow[], error: null };
+    },
+
+    async insertVehicles(rows, { columns } = {}) {
+      if (rows.length === 0) return { data: [], error: null };
+
+      const { data, error } = await supabase
+        .from(VEHICLES_TABLE)
+        .insert(rows)
+        .select(selectColumns(columns));
+
+      if (error) return { data: null, error };
+      return { data: (data || []) as unknown as VehicleRow[], error: null };
+    },
+
+    async updateVehicles(ids, values, { columns } = {}) {
+      const { data, error } = await supabase
+        .from(VEHICLES_TABLE)
+        .update(values)
+        .in('id', ids)
+        .select(selectColumns(columns));
+
+      if (error) return { data: null, error };
+      return { data: (data || []) as unknown as VehicleRow[], error: null };
+    },
+
+    async deleteVehicles(ids) {
+      const { error } = await supabase.from(VEHICLES_TABLE).delete().in('id', ids);
+      if (error) return { data: null, error };
+      return { data: null, error: null };
+    },
+
+    async searchVehicles({ query, filters, columns, offset = 0, limit }) {
+      // Every match, in pages, so the filters below and the count see all of them
+      let matches: SearchMatch[] = [];
+      for (let from = 0; ; from += RPC_BATCH_SIZE) {
+        const { data: matchData, error } = await supabase
+          .rpc(SEARCH_VEHICLES_FUNCTION, { search_query: query })
+          .range(from, from + RPC_BATCH_SIZE - 1);
+        if (error) return { data: null, count: null, error };
+
+        const batch = (matchData || []) as SearchMatch[];
+        matches.push(...batch);
+        if (batch.length < RPC_BATCH_SIZE) break;
+      }
+
+      // Filters are applied with the regular query builder, in batches of ids
+      if (filters && Object.values(filters).some(value => value !== undefined)) {
+        const allowed = new Set<number>();
+
+        for (let i = 0; i < matches.length; i += ID_BATCH_SIZE) {
+          const ids = matches.slice(i, i + ID_BATCH_SIZE).map(match => match.id);
+          let filterQuery = supabase.from(VEHICLES_TABLE).select('id').in('id', ids);
+          filterQuery = applyVehicleFilters(applyDeletedFilter(filterQuery), filters);
+
+          const { data, error } = await filterQuery;
+          if (error) return { data: null, count: null, error };
+          for (const row of (data || []) as { id: number }[]) allowed.add(row.id);
+        }
+
+        matches = matches.filter(match => allowed.has(match.id));
+      }
+
+      const page = limit === undefined ? matches.slice(offset) : matches.slice(offset, offset + limit);
+      if (page.length === 0) return { data: [], count: matches.length, error: null };
+
+      const byId = new Map<number, VehicleRow>();
+      for (let i = 0; i < page.length; i += ID_BATCH_SIZE) {
+        const { data: rows, error: rowsError } = await supabase
+          .from(VEHICLES_TABLE)
+          .select(selectColumns(columns && [...new Set(['id', ...columns])]))
+          .in('id', page.slice(i, i + ID_BATCH_SIZE).map(match => match.id));
+
+        if (rowsError) return { data: null, count: null, error: rowsError };
+        for (const row of (rows || []) as unknown as VehicleRow[]) byId.set(row.id, row);
+      }
+
+      const hits: VehicleSearchHit[] = page
+        .filter(match => byId.has(match.id))
+        .map(match => ({
+          vehicle: byId.get(match.id)!,
+          rank: Number(match.rank),
+          snippet: match.snippet,
+          matchedFields: match.matched_fields || [],
+        }));
+
+      return { data: hits, count: matches.length, error: null };
+    },
+
+    async insertAuditEntry(entry) {
+      const { error } = await supabase.from(AUDIT_TABLE).insert(entry);
+      if (error) return { data: null, error };
+      return { data: null, error: null };
+    },
+
+    async findAuditEntries({ vehicleIds, tool, actor, since, until, offset, limit }) {
+      let query = supabase.from(AUDIT_TABLE).select('*', { count: 'exact' });
+
+      if (vehicleIds) query = query.overlaps('vehicle_ids', vehicleIds);
+      if (tool) query = query.eq('tool', tool);
+      if (actor) query = query.eq('actor', actor);
+      if (since) query = query.gte('created_at', new Date(since).toISOString());
+      if (until) query = query.lte('created_at', new Date(until).toISOString());
+
+      query = query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (limit !== undefined) {
+        query = query.range(offset || 0, (offset || 0) + limit - 1);
+      }
+
+      const { data, error, count } = await query;
+      if (error) return { data: null, count: null, error };
+      return { data: (data || []) as AuditEntry[], count: count ?? 0, error: null };
+    },
+
+    async insertPriceHistory(entries) {
+      if (entries.length === 0) return { data: null, error: null };
+      const { error } = await supabase.from(PRICE_HISTORY_TABLE).insert(entries);
+      if (error) return { data: null, error };
+      return { data: null, error: null };
+    },
+
+    async findPriceHistory({ vehicleIds, field, since }) {
+      let query = supabase.from(PRICE_HISTORY_TABLE).select('*').in('vehicle_id', vehicleIds);
+
+      if (field) query = query.eq('field', field);
+      if (since) query = query.gte('changed_at', new Date(since).toISOString());
+
+      const { data, error } = await query
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (error) return { data: null, error };
+      return { data: (data || []).map(toPriceHistoryEntry), error: null };
+    },
+
+    async findLatestPriceHistory(vehicleIds) {
+      const entries: PriceHistoryEntry[] = [];
+
+      // At most two rows (price, custom_price) per vehicle, well below the 1000 row cap
+      for (let i = 0; i < vehicleIds.length; i += ID_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from(PRICE_HISTORY_LATEST_VIEW)
+          .select('*')
+          .in('vehicle_id', vehicleIds.slice(i, i + ID_BATCH_SIZE));
+
+        if (error) return { data: null, error };
+        entries.push(...(data || []).map(toPriceHistoryEntry));
+      }
+
+      return { data: entries, error: null };
+    },
+
+    async getPriceHistoryEntry(id) {
+      const { data, error } = await supabase
+        .from(PRICE_HISTORY_TABLE)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) return { data: null, error };
+      return { data: data ? toPriceHistoryEntry(data) : null, error: null };
+    },
+
+    async findVinSuppressions(vins) {
+      let query = supabase.from(VIN_SUPPRESSIONS_TABLE).select('*');
+      if (vins) query = query.in('vin', vins);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+      if (error) return { data: null, error };
+      return { data: (data || []) as VinSuppression[], error: null };
+    },
+
+    async upsertVinSuppression(entry) {
+      const { data, error } = await supabase
+        .from(VIN_SUPPRESSIONS_TABLE)
+        .upsert({ ...entry, created_at: new Date().toISOString() }, { onConflict: 'vin' })
+        .select('*')
+        .single();
+
+      if (error) return { data: null, error };
+      return { data: data as VinSuppression, error: null };
+    },
+
+    async deleteVinSuppressions(vins) {
+      const { data, error } = await supabase
+        .from(VIN_SUPPRESSIONS_TABLE)
+        .delete()
+        .in('vin', vins)
+        .select('*');
+
+      if (error) return { data: null, error };
+      return { data: (data || []) as VinSuppression[], error: null };
+    },
+
+    async insertNote(entry) {
+      const { data, error } = await supabase
+        .from(NOTES_TABLE)
+        .insert(entry)
+        .select('*')
+        .single();
+
+      if (error) return { data: null, error };
+      return { data: data as VehicleNote, error: null };
+    },
+
+    async findNotes({ vehicleIds, category, author, text, since, until, offset, limit }) {
+      let query = supabase.from(NOTES_TABLE).select('*', { count: 'exact' });
+
+      if (vehicleIds) query = query.in('vehicle_id', vehicleIds);
+      if (category) query = query.eq('category', category);
+      if (author) query = query.eq('author', author);
+      // Uses the full-text index on the body (see the vehicle_notes migration)
+      if (text) query = query.textSearch('body', text, { type: 'websearch', config: 'english' });
+      if (since) query = query.gte('created_at', new Date(since).toISOString());
+      if (until) query = query.lte('created_at', new Date(until).toISOString());
+
+      query = query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (limit !== undefined) {
+        query = query.range(offset || 0, (offset || 0) + limit - 1);
+      }
+
+      const { data, error, count } = await query;
+      if (error) return { data: null, count: null, error };
+      return { data: (data || []) as VehicleNote[], count: count ?? 0, error: null };
+    },
+
+    async getNote(id) {
+      const { data, error } = await supabase
+        .from(NOTES_TABLE)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) return { data: null, error };
+      return { data: data as VehicleNote | null, error: null };
+    },
+
+    async updateNote(id, values) {
+      const { data, error } = await supabase
+        .from(NOTES_TABLE)
+        .update(values)
+        .eq('id', id)
+        .select('*')
+        .maybeSingle();
+
+      if (error) return { data: null, error };
+      return { data: data as VehicleNote | null, error: null };
+    },
+
+    async deleteNote(id) {
+      const { data, error } = await supabase
+        .from(NOTES_TABLE)
+        .delete()
+        .eq('id', id)
+        .select('*')
+        .maybeSingle();
+
+      if (error) return { data: null, error };
+      return { data: data as VehicleNote | null, error: null };
+    },
+  };
+}
+
+/**
+ * Repository on the Supabase project from SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY,
+ * or null when the credentials are missing
+ */
+export function createSupabaseRepositoryFromEnv(): VehicleRepository | null {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    return null;
+  }
+
+  return createSupabaseRepository(createClient(supabaseUrl, supabaseKey));
+}
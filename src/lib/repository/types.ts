@@ -0,0 +1,160 @@
+import type { VehicleFilters } from "../vehicle-filters";
+import type { AuditEntry } from "../audit";
+import type { PriceField, PriceHistoryEntry } from "../price-history";
+import type { VinSuppression } from "../vin-suppression";
+import type { NoteCategory, VehicleNote } from "../vehicle-notes";
+
+export const DATA_SOURCES = ['supabase', 'memory'] as const;
+
+export type DataSource = typeof DATA_SOURCES[number];
+
+export type VehicleRow = Record<string, any>;
+
+export type RepositoryError = {
+  message: string;
+};
+
+/**
+ * Outcome of a repository call, shaped like a supabase-js response so callers
+ * keep the `const { data, error } = await ...` style
+ */
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepositoryError };
+
+export type RepositoryListResult<T> =
+  | { data: T[]; count: number; error: null }
+  | { data: null; count: null; error: RepositoryError };
+
+export type SortOrder = {
+  column: string;
+  ascending: boolean;
+  // Default as in Postgres: nulls last when ascending, first when descending
+  nullsFirst?: boolean;
+};
+
+/**
+ * Selection of rows in the `vehicles` table. All conditions are combined with AND.
+ */
+export type VehicleQuery = {
+  id?: number;
+  ids?: number[];
+  vin?: string;
+  stockNumber?: string;
+  filters?: VehicleFilters;
+  // Soft deleted vehicles: excluded by default
+  deleted?: 'exclude' | 'only' | 'include';
+  deletedSince?: string;
+  // Columns to return (default: all)
+  columns?: string[];
+  orderBy?: SortOrder[];
+  offset?: number;
+  limit?: number;
+};
+
+/**
+ * Ranked full-text search among active vehicles, optionally narrowed by filters
+ */
+export type VehicleSearchQuery = {
+  query: string;
+  filters?: VehicleFilters;
+  columns?: string[];
+  offset?: number;
+  limit?: number;
+};
+
+export type VehicleSearchHit = {
+  vehicle: VehicleRow;
+  // Higher is more relevant; only comparable within one search
+  rank: number;
+  // Excerpt of the best matching column with matches wrapped in **
+  snippet: string | null;
+  matchedFields: string[];
+};
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'created_at'>;
+
+export type AuditLogQuery = {
+  vehicleIds?: number[];
+  tool?: string;
+  actor?: string;
+  since?: string;
+  until?: string;
+  offset?: number;
+  limit?: number;
+};
+
+export type PriceHistoryInput = Omit<PriceHistoryEntry, 'id' | 'changed_at'>;
+
+export type PriceHistoryQuery = {
+  vehicleIds: number[];
+  field?: PriceField;
+  since?: string;
+};
+
+export type VinSuppressionInput = Omit<VinSuppression, 'created_at'>;
+
+export type VehicleNoteInput = Pick<VehicleNote, 'vehicle_id' | 'body' | 'category' | 'author'>;
+
+export type VehicleNoteChanges = Partial<Pick<VehicleNote, 'body' | 'category'>> & Pick<VehicleNote, 'updated_at' | 'updated_by'>;
+
+export type VehicleNoteQuery = {
+  vehicleIds?: number[];
+  category?: NoteCategory;
+  author?: string;
+  // Web-search style query on the note text, as in search-vehicles
+  text?: string;
+  since?: string;
+  until?: string;
+  offset?: number;
+  limit?: number;
+};
+
+/**
+ * Data access used by every tool. Implemented on Supabase and in memory
+ * (see DATA_SOURCE in ./index.ts).
+ */
+export interface VehicleRepository {
+  readonly name: DataSource;
+
+  // Vehicles
+  findVehicles(query: VehicleQuery): Promise<RepositoryListResult<VehicleRow>>;
+  /** Vehicles whose VIN or stock number equals one of the given values */
+  findVehiclesByVinOrStockNumber(
+    { vin, stockNumber }: { vin?: string | null; stockNumber?: string | null },
+    options?: { deleted?: VehicleQuery['deleted']; columns?: string[] }
+  ): Promise<RepositoryResult<VehicleRow[]>>;
+  /** Insert new vehicles and return them with their generated ids */
+  insertVehicles(rows: VehicleRow[], options?: { columns?: string[] }): Promise<RepositoryResult<VehicleRow[]>>;
+  updateVehicles(ids: number[], values: VehicleRow, options?: { columns?: string[] }): Promise<RepositoryResult<VehicleRow[]>>;
+  deleteVehicles(ids: number[]): Promise<RepositoryResult<null>>;
+  /** Most relevant first; `count` is the number of matches before paging */
+  searchVehicles(query: VehicleSearchQuery): Promise<RepositoryListResult<VehicleSearchHit>>;
+
+  // Audit log
+  insertAuditEntry(entry: AuditEntryInput): Promise<RepositoryResult<null>>;
+  findAuditEntries(query: AuditLogQuery): Promise<RepositoryListResult<AuditEntry>>;
+
+  // Price history, newest first
+  insertPriceHistory(entries: PriceHistoryInput[]): Promise<RepositoryResult<null>>;
+  findPriceHistory(query: PriceHistoryQuery): Promise<RepositoryResult<PriceHistoryEntry[]>>;
+  /** Most recent entry per vehicle and field */
+  findLatestPriceHistory(vehicleIds: number[]): Promise<RepositoryResult<PriceHistoryEntry[]>>;
+  getPriceHistoryEntry(id: number): Promise<RepositoryResult<PriceHistoryEntry | null>>;
+
+  // VIN suppression list, newest first
+  /** Suppressed VINs, all of them or only those among `vins` */
+  findVinSuppressions(vins?: string[]): Promise<RepositoryResult<VinSuppression[]>>;
+  upsertVinSuppression(entry: VinSuppressionInput): Promise<RepositoryResult<VinSuppression>>;
+  /** Remove VINs from the list and return the removed entries */
+  deleteVinSuppressions(vins: string[]): Promise<RepositoryResult<VinSuppression[]>>;
+
+  // Vehicle notes, newest first
+  insertNote(entry: VehicleNoteInput): Promise<RepositoryResult<VehicleNote>>;
+  findNotes(query: VehicleNoteQuery): Promise<RepositoryListResult<VehicleNote>>;
+  getNote(id: number): Promise<RepositoryResult<VehicleNote | null>>;
+  /** Returns null when the note does not exist */
+  updateNote(id: number, values: VehicleNoteChanges): Promise<RepositoryResult<VehicleNote | null>>;
+  /** Returns the removed note, or null when it did not exist */
+  deleteNote(id: number): Promise<RepositoryResult<VehicleNote | null>>;
+}
@@ -0,0 +1,14 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRepository, setRepository } from "./repository";
+import { vehicleResource } from "./resources";
+
+test('vehicleResource sets the resource URI on its contents', async () => {
+  setRepository(createMemoryRepository({ vehicles: [{ id: 1, vin: 'WP0AB2A99KS123456', stock_number: 'P1001' }] }));
+
+  const result = await vehicleResource('stock://P1001', { stockNumber: 'P1001' });
+
+  assert.equal(result.contents.length, 1);
+  assert.equal(result.contents[0].uri, 'stock://P1001');
+  assert.equal(JSON.parse(result.contents[0].text).vin, 'WP0AB2A99KS123456');
+});
@@ -0,0 +1,35 @@
+import { getRepository } from "./repository";
+import { missingCredentialsError } from "./tool-result";
+import { findVehicle, type VehicleIdentifier } from "./vehicle-lookup";
+import { syncPriceHistory } from "./price-history";
+
+/**
+ * Resource result with a JSON document. xmcp only fills in the URI of direct
+ * resources, so template resources must pass the URI that was read.
+ */
+export function jsonResource(uri: string, value: unknown) {
+  return {
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+  };
+}
+
+/**
+ * Full document of one active vehicle. Resources have no error result, so a
+ * missing vehicle is thrown with the same message the tools return.
+ */
+export async function vehicleResource(uri: string, identifier: VehicleIdentifier) {
+  const repository = getRepository();
+  if (!repository) {
+    throw new Error(missingCredentialsError().structuredContent.error.message);
+  }
+
+  const found = await findVehicle(repository, identifier);
+  if (found.error) {
+    throw new Error(found.error.structuredContent.error.message);
+  }
+
+  // Record prices changed by the vAuto sync since they were last seen
+  await syncPriceHistory(repository, [found.vehicle]);
+
+  return jsonResource(uri, found.vehicle);
+}
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+export const numberStatsSchema = z.object({
+  count: z.number().describe("Number of vehicles with a value"),
+  min: z.number().nullable(),
+  avg: z.number().nullable(),
+  median: z.number().nullable(),
+  max: z.number().nullable(),
+});
+
+export type NumberStats = z.infer<typeof numberStatsSchema>;
+
+export function numberStats(values: number[]): NumberStats {
+  if (values.length === 0) {
+    return { count: 0, min: null, avg: null, median: null, max: null };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const sum = sorted.reduce((total, value) => total + value, 0);
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    avg: Math.round((sum / sorted.length) * 100) / 100,
+    median,
+    max: sorted[sorted.length - 1],
+  };
+}
@@ -0,0 +1,54 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { findStorageIssues } from "./storage-reconciliation";
+import type { StoredObject } from "./storage";
+
+const object = (key: string): StoredObject => ({ key, size: 100, lastModified: null });
+
+const vehicles = [
+  { id: 1, stock_number: 'F1001', dealer_id: 'd1', ai_video: 'https://cdn.example.com/vehicles/F1001/ai-video.mp4' },
+  { id: 2, stock_number: 'P2002', dealer_id: 'd1', ai_video: null },
+];
+
+afterEach(() => {
+  delete process.env.AI_VIDEO_KEY_TEMPLATE;
+});
+
+test('only keys matching the whole video template are considered', () => {
+  const issues = findStorageIssues([
+    object('vehicles/F1001/ai-video.mp4'),
+    object('vehicles/F1001/photo.jpg'),
+    object('vehicles/OLD1/ai-video.mp4'),
+    object('vehicles/OLD1/notes.txt'),
+  ], vehicles);
+
+  assert.deepEqual(issues.map(issue => [issue.type, issue.objectKey, issue.action]), [
+    ['orphaned_object', 'vehicles/OLD1/ai-video.mp4', 'delete_object'],
+  ]);
+});
+
+test('nothing is deleted when the key template starts with a placeholder', () => {
+  process.env.AI_VIDEO_KEY_TEMPLATE = '{dealerId}/{stockNumber}/ai-video.{ext}';
+
+  const issues = findStorageIssues([
+    object('uploads/sheets/prices.csv'),
+    object('exports/inventory.csv'),
+    object('d1/P2002/ai-video.mp4'),
+    object('d9/OLD1/ai-video.mp4'),
+  ], [{ ...vehicles[0], ai_video: 'https://cdn.example.com/d1/F1001/ai-video.mp4' }, vehicles[1]]);
+
+  assert.deepEqual(issues.map(issue => [issue.type, issue.objectKey, issue.action, issue.status]), [
+    ['unlinked_video', 'd1/P2002/ai-video.mp4', 'none', 'report_only'],
+    ['orphaned_object', 'd9/OLD1/ai-video.mp4', 'none', 'report_only'],
+    ['dangling_url', 'd1/F1001/ai-video.mp4', 'clear_ai_video', 'planned'],
+  ]);
+});
+
+test('files still linked from ai_video are not orphaned', () => {
+  const issues = findStorageIssues(
+    [object('vehicles/OLD1/ai-video.mp4')],
+    [{ id: 1, stock_number: 'F1001', ai_video: 'https://cdn.example.com/vehicles/OLD1/ai-video.mp4' }]
+  );
+
+  assert.deepEqual(issues.map(issue => issue.type), ['mismatched_key']);
+});
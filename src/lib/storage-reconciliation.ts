@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { vehicleSummarySchema, toVehicleSummary } from "./vehicle";
+import { diffColumns, recordAudit, type AuditChanges } from "./audit";
+import { AI_VIDEO_COLUMNS, aiVideoObjectKey, aiVideoKey, objectKeyFromUrl } from "./ai-video";
+import { EXPORT_KEY_PREFIX } from "./vehicle-export";
+import {
+  getAiVideoKeyTemplate,
+  templateFolder,
+  templatePrefix,
+  keyTemplatePattern,
+  renderKey,
+  vehicleKeyValues,
+  type MediaStorage,
+  type StoredObject,
+} from "./storage";
+import type { VehicleRepository, VehicleRow } from "./repository";
+
+/**
+ * Drift between the media storage and the vehicles table: the video files
+ * (keys of the AI video key template, by default
+ * vehicles/{stockNumber}/ai-video.{ext}) compared with the `ai_video` column.
+ */
+
+export const STORAGE_ISSUE_TYPES = ['orphaned_object', 'unlinked_video', 'dangling_url', 'mismatched_key'] as const;
+
+export type StorageIssueType = typeof STORAGE_ISSUE_TYPES[number];
+
+export const RECONCILE_AUDIT_TOOL = 'reconcile-storage';
+
+// Columns needed to match vehicles with their files
+export const RECONCILE_COLUMNS = [...AI_VIDEO_COLUMNS, 'deleted_at'];
+
+export const storageIssueSchema = z.object({
+  type: z.enum(STORAGE_ISSUE_TYPES),
+  objectKey: z.string().nullable().describe("Object key concerned"),
+  vehicle: vehicleSummarySchema.nullable().describe("Vehicle concerned, null for orphaned objects"),
+  aiVideo: z.string().nullable().describe("Current ai_video URL of the vehicle"),
+  size: z.number().nullable().describe("Size of the object in bytes, when it exists"),
+  detail: z.string(),
+  action: z.enum(['delete_object', 'clear_ai_video', 'none']).describe("What cleanup does: delete the object, set ai_video to null, or nothing (needs a manual fix)"),
+  status: z.enum(['planned', 'done', 'failed', 'report_only']).describe("'planned' in a dry run"),
+  error: z.string().optional(),
+});
+
+export type StorageIssue = z.infer<typeof storageIssueSchema>;
+
+/**
+ * Prefix to list: the fixed start of the vehicle folders, e.g. `vehicles/`
+ */
+export function vehicleMediaPrefix(): string {
+  return templatePrefix(templateFolder(getAiVideoKeyTemplate()));
+}
+
+/**
+ * Whether cleanup may delete objects. A template starting with a placeholder
+ * has no fixed prefix, so its keys cannot be told apart from unrelated files
+ * in the same storage and orphans are only reported.
+ */
+export function canDeleteMediaObjects(): boolean {
+  return vehicleMediaPrefix() !== '';
+}
+
+/**
+ * Compare the listed objects with every vehicle row, including soft deleted
+ * ones (their files are kept so they can be restored):
+ * - orphaned_object: no vehicle has the folder and none links to the file,
+ *   e.g. after a permanent delete
+ * - unlinked_video: a vehicle's video file exists but ai_video is null,
+ *   e.g. when the storage delete of delete-ai-video failed. Vehicles queued
+ *   for regeneration are skipped: the batch may be uploading their new video
+ * - dangling_url: ai_video is set but its file does not exist
+ * - mismatched_key: ai_video points to another key than the vehicle's own,
+ *   e.g. after the stock number changed. Only reported
+ *
+ * Only keys matching the whole video template are considered: other files in
+ * the vehicle folders, exports and anything else in the storage are ignored.
+ */
+export function findStorageIssues(objects: StoredObject[], vehicles: VehicleRow[]): StorageIssue[] {
+  const issues: StorageIssue[] = [];
+  const objectsByKey = new Map(objects.map(object => [object.key, object]));
+  const template = getAiVideoKeyTemplate();
+  const videoPattern = keyTemplatePattern(template);
+  const folderTemplate = templateFolder(template);
+  const folderPattern = keyTemplatePattern(folderTemplate, { exact: false });
+  const cleanup = canDeleteMediaObjects()
+    ? { action: 'delete_object' as const, status: 'planned' as const, note: '' }
+    : { action: 'none' as const, status: 'report_only' as const, note: ' (not deleted: the key template has no fixed prefix)' };
+
+  const vehiclesByFolder = new Map<string, VehicleRow[]>();
+  for (const vehicle of vehicles) {
+    const folder = renderKey(folderTemplate, vehicleKeyValues(vehicle));
+    if (!folder) continue;
+    const group = vehiclesByFolder.get(folder) || [];
+    group.push(vehicle);
+    vehiclesByFolder.set(folder, group);
+  }
+
+  const linkedKeys = new Set<string>();
+  for (const vehicle of vehicles) {
+    if (!vehicle.ai_video) continue;
+    const key = aiVideoKey(vehicle);
+    if (key) linkedKeys.add(key);
+  }
+
+  for (const object of objects) {
+    if (object.key.startsWith(EXPORT_KEY_PREFIX) || !videoPattern.test(object.key)) continue;
+
+    const folder = folderPattern.exec(object.key)?.[0];
+    if (!folder) continue;
+
+    const owners = vehiclesByFolder.get(folder);
+    if (!owners) {
+      // Still linked, e.g. by a vehicle whose stock number changed: reported as mismatched_key
+      if (linkedKeys.has(object.key)) continue;
+
+      issues.push({
+        type: 'orphaned_object',
+        objectKey: object.key,
+        vehicle: null,
+        aiVideo: null,
+        size: object.size,
+        detail: `No vehicle is stored under ${folder}${cleanup.note}`,
+        action: cleanup.action,
+        status: cleanup.status,
+      });
+      continue;
+    }
+
+    const owner = owners.find(vehicle => aiVideoObjectKey(vehicle) === object.key);
+    if (owner && !linkedKeys.has(object.key) && !owners.some(vehicle => vehicle.ai_video_queued_at)) {
+      issues.push({
+        type: 'unlinked_video',
+        objectKey: object.key,
+        vehicle: toVehicleSummary(owner),
+        aiVideo: null,
+        size: object.size,
+        detail: `Video file exists but ai_video is empty${cleanup.note}`,
+        action: cleanup.action,
+        status: cleanup.status,
+      });
+    }
+  }
+
+  for (const vehicle of vehicles) {
+    if (!vehicle.ai_video) continue;
+
+    const expectedKey = aiVideoObjectKey(vehicle);
+    const linkedKey = objectKeyFromUrl(vehicle.ai_video);
+
+    if (linkedKey && expectedKey && linkedKey !== expectedKey) {
+      const exists = objectsByKey.has(linkedKey);
+      issues.push({
+        type: 'mismatched_key',
+        objectKey: linkedKey,
+        vehicle: toVehicleSummary(vehicle),
+        aiVideo: vehicle.ai_video,
+        size: objectsByKey.get(linkedKey)?.size ?? null,
+        detail: `ai_video points to ${linkedKey}${exists ? '' : ' (which does not exist)'} instead of ${expectedKey}`,
+        action: 'none',
+        status: 'report_only',
+      });
+      continue;
+    }
+
+    const key = linkedKey ?? expectedKey;
+    if (key && !objectsByKey.has(key)) {
+      issues.push({
+        type: 'dangling_url',
+        objectKey: key,
+        vehicle: toVehicleSummary(vehicle),
+        aiVideo: vehicle.ai_video,
+        size: null,
+        detail: `ai_video is set but ${key} does not exist`,
+        action: 'clear_ai_video',
+        status: 'planned',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Apply the planned cleanup of each issue and mark it done or failed.
+ * Cleared ai_video fields are recorded in the audit log.
+ */
+export async function cleanStorageIssues(
+  repository: VehicleRepository,
+  storage: MediaStorage,
+  issues: StorageIssue[]
+): Promise<{ audit: { success: boolean; error?: string } }> {
+  const changes: AuditChanges = {};
+  const updatedAt = new Date().toISOString();
+
+  for (const issue of issues) {
+    if (issue.status !== 'planned') continue;
+
+    try {
+      if (issue.action === 'delete_object' && issue.objectKey) {
+        await storage.deleteObject(issue.objectKey);
+      } else if (issue.action === 'clear_ai_video' && issue.vehicle) {
+        const { data: updated, error } = await repository.updateVehicles(
+          [issue.vehicle.id],
+          { ai_video: null, updated_at: updatedAt },
+          { columns: ['id', 'ai_video'] }
+        );
+        if (error || updated.length !== 1) {
+          throw new Error(`Error updating vehicle: ${error?.message || 'vehicle was not updated'}`);
+        }
+        changes[issue.vehicle.id] = diffColumns({ ai_video: issue.aiVideo }, updated[0], ['ai_video']);
+      }
+      issue.status = 'done';
+    } catch (err) {
+      issue.status = 'failed';
+      issue.error = err instanceof Error ? err.message : 'Unknown error';
+    }
+  }
+
+  const audit = await recordAudit(repository, { tool: RECONCILE_AUDIT_TOOL, changes });
+  return { audit };
+}
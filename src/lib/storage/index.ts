@@ -0,0 +1,55 @@
+import { createS3Storage, getS3StorageConfig } from "./s3";
+import { createLocalStorage } from "./local";
+import { toolError, type ToolErrorResult } from "../tool-result";
+import type { MediaStorage, StorageBackend } from "./types";
+
+export * from "./types";
+export * from "./keys";
+export { createS3Storage, getS3StorageConfig, type S3StorageConfig } from "./s3";
+export { createLocalStorage } from "./local";
+
+const DEFAULT_LOCAL_STORAGE_DIR = './media';
+
+let storage: MediaStorage | null = null;
+
+export function getStorageBackend(): StorageBackend {
+  return process.env.STORAGE_BACKEND === 'local' ? 'local' : 's3';
+}
+
+/**
+ * Media storage shared by all tools, chosen by STORAGE_BACKEND:
+ * - 's3' (default): the Cloudflare R2 or other S3-compatible bucket in the
+ *   R2_* settings (see ./s3.ts)
+ * - 'local': files below LOCAL_STORAGE_DIR (default ./media) for development
+ *
+ * Returns null when the bucket settings are missing.
+ */
+export function getMediaStorage(): MediaStorage | null {
+  if (storage) return storage;
+
+  if (getStorageBackend() === 'local') {
+    storage = createLocalStorage(process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR);
+  } else {
+    const config = getS3StorageConfig();
+    storage = config ? createS3Storage(config) : null;
+  }
+
+  return storage;
+}
+
+/**
+ * Replace the shared storage, e.g. with a temporary directory in tests
+ */
+export function setMediaStorage(value: MediaStorage | null): void {
+  storage = value;
+}
+
+/**
+ * Error for a tool that needs the media storage, `consequence` saying what cannot be done
+ */
+export function storageNotConfiguredError(consequence: string): ToolErrorResult {
+  return toolError(
+    'STORAGE_ERROR',
+    `Media storage is not configured, so ${consequence}. Set R2_ENDPOINT, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY and R2_BUCKET_NAME, or STORAGE_BACKEND=local to keep files on disk.`
+  );
+}
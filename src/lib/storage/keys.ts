@@ -0,0 +1,85 @@
+import type { VehicleRow } from "../repository";
+
+/**
+ * Object keys of vehicle files rendered from templates such as
+ * `{dealerId}/{stockNumber}/ai-video.{ext}`. Each placeholder stands for one
+ * path segment (or part of one).
+ */
+
+export const KEY_PLACEHOLDERS = ['id', 'vin', 'stockNumber', 'dealerId', 'ext'] as const;
+
+export type KeyPlaceholder = typeof KEY_PLACEHOLDERS[number];
+
+export type KeyValues = Partial<Record<KeyPlaceholder, string | number | null>>;
+
+export const DEFAULT_AI_VIDEO_KEY_TEMPLATE = 'vehicles/{stockNumber}/ai-video.{ext}';
+
+// Columns the placeholders are filled from
+export const VEHICLE_KEY_COLUMNS = ['id', 'vin', 'stock_number', 'dealer_id'];
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Key template of AI videos from AI_VIDEO_KEY_TEMPLATE
+ */
+export function getAiVideoKeyTemplate(): string {
+  return process.env.AI_VIDEO_KEY_TEMPLATE || DEFAULT_AI_VIDEO_KEY_TEMPLATE;
+}
+
+export function vehicleKeyValues(row: VehicleRow, ext?: string): KeyValues {
+  return {
+    id: row.id ?? null,
+    vin: row.vin ?? null,
+    stockNumber: row.stock_number ?? null,
+    dealerId: row.dealer_id ?? null,
+    ext: ext ?? null,
+  };
+}
+
+/**
+ * Fill in the placeholders, or null when one of them has no value.
+ * Throws for a placeholder the templates do not support.
+ */
+export function renderKey(template: string, values: KeyValues): string | null {
+  let complete = true;
+
+  const key = template.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(KEY_PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown placeholder {${name}} in key template '${template}'. Use ${KEY_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}`);
+    }
+    const value = values[name as KeyPlaceholder];
+    if (value === null || value === undefined || value === '') {
+      complete = false;
+      return '';
+    }
+    return String(value);
+  });
+
+  return complete ? key : null;
+}
+
+/**
+ * Part of the template before the first placeholder, shared by all its keys
+ */
+export function templatePrefix(template: string): string {
+  const start = template.indexOf('{');
+  return start === -1 ? template : template.substring(0, start);
+}
+
+/**
+ * Folder part of the template, e.g. `vehicles/{stockNumber}/`
+ */
+export function templateFolder(template: string): string {
+  return template.substring(0, template.lastIndexOf('/') + 1);
+}
+
+/**
+ * Pattern matching the keys rendered from the template. With `exact` false it
+ * matches their beginning, e.g. any file in a vehicle's folder.
+ */
+export function keyTemplatePattern(template: string, { exact = true }: { exact?: boolean } = {}): RegExp {
+  const source = template
+    .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+    .replace(PLACEHOLDER, '[^/]+');
+  return new RegExp(`^${source}${exact ? '$' : ''}`);
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { resolve, dirname, join, relative, sep } from 'path';
+import { pathToFileURL } from 'url';
+import type { MediaStorage, StoredObject } from "./types";
+
+/**
+ * Storage in a directory on the local disk for development: each key is a
+ * file path below `root`. Download links are file:// URLs that do not expire.
+ */
+export function createLocalStorage(root: string): MediaStorage {
+  const base = resolve(root);
+
+  function filePath(key: string): string {
+    const resolved = resolve(base, key);
+    if (!resolved.startsWith(base + sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async function listFiles(dir: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await listFiles(entryPath));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  return {
+    name: 'local',
+    location: `directory '${base}'`,
+
+    async putObject(key, body) {
+      const file = filePath(key);
+      await fs.mkdir(dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+
+    async getText(key) {
+      return fs.readFile(filePath(key), 'utf8');
+    },
+
+    async headObject(key) {
+      try {
+        const stats = await fs.stat(filePath(key));
+        return stats.isFile() ? { size: stats.size, lastModified: stats.mtime.toISOString() } : null;
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async deleteObject(key) {
+      await fs.rm(filePath(key), { force: true });
+    },
+
+    async listObjects(prefix) {
+      // Only walk the directory the prefix is in
+      const dir = resolve(base, prefix.substring(0, prefix.lastIndexOf('/') + 1));
+      if (dir !== base && !dir.startsWith(base + sep)) return [];
+
+      const objects: StoredObject[] = [];
+      for (const file of await listFiles(dir)) {
+        const key = relative(base, file).split(sep).join('/');
+        if (!key.startsWith(prefix)) continue;
+        const stats = await fs.stat(file);
+        objects.push({ key, size: stats.size, lastModified: stats.mtime.toISOString() });
+      }
+      return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+
+    async getDownloadUrl(key) {
+      return pathToFileURL(filePath(key)).href;
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { MediaStorage, StoredObject } from "./types";
+
+export type S3StorageConfig = {
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+  // Only needed for other S3-compatible stores; R2 ignores the region
+  region: string;
+  // Path-style URLs (endpoint/bucket/key), required by most local S3 stand-ins
+  forcePathStyle: boolean;
+};
+
+/**
+ * Cloudflare R2 credentials from R2_ENDPOINT, R2_ACCESS_KEY_ID,
+ * R2_SECRET_ACCESS_KEY and R2_BUCKET_NAME, or null unless all are set.
+ * R2_REGION and R2_FORCE_PATH_STYLE point the same settings at any
+ * S3-compatible endpoint, e.g. a local MinIO.
+ */
+export function getS3StorageConfig(): S3StorageConfig | null {
+  const endpoint = process.env.R2_ENDPOINT;
+  const accessKeyId = process.env.R2_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
+  const bucketName = process.env.R2_BUCKET_NAME;
+
+  if (!endpoint || !accessKeyId || !secretAccessKey || !bucketName) {
+    return null;
+  }
+
+  return {
+    endpoint,
+    accessKeyId,
+    secretAccessKey,
+    bucketName,
+    region: process.env.R2_REGION || 'auto',
+    forcePathStyle: process.env.R2_FORCE_PATH_STYLE === 'true',
+  };
+}
+
+function isNotFound(err: any): boolean {
+  // HEAD responses have no body, so a missing object only shows in the status code
+  return err?.name === 'NotFound' || err?.name === 'NoSuchKey' || err?.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Storage in an S3-compatible bucket. One client is shared by every call.
+ */
+export function createS3Storage(config: S3StorageConfig, client?: S3Client): MediaStorage {
+  const s3 = client || new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+  });
+  const Bucket = config.bucketName;
+
+  return {
+    name: 's3',
+    location: `bucket '${Bucket}'`,
+
+    async putObject(key, body, { contentType, fileName }) {
+      await s3.send(new PutObjectCommand({
+        Bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ...(fileName ? { ContentDisposition: `attachment; filename="${fileName}"` } : {}),
+      }));
+    },
+
+    async getText(key) {
+      const { Body } = await s3.send(new GetObjectCommand({ Bucket, Key: key }));
+      if (!Body) throw new Error(`Object ${key} is empty`);
+      return Body.transformToString('utf-8');
+    },
+
+    async headObject(key) {
+      try {
+        const { ContentLength, LastModified } = await s3.send(new HeadObjectCommand({ Bucket, Key: key }));
+        return {
+          size: ContentLength ?? null,
+          lastModified: LastModified ? LastModified.toISOString() : null,
+        };
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    async deleteObject(key) {
+      await s3.send(new DeleteObjectCommand({ Bucket, Key: key }));
+    },
+
+    async listObjects(prefix) {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const { Contents, IsTruncated, NextContinuationToken } = await s3.send(new ListObjectsV2Command({
+          Bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+
+        for (const object of Contents ?? []) {
+          if (!object.Key) continue;
+          objects.push({
+            key: object.Key,
+            size: object.Size ?? null,
+            lastModified: object.LastModified ? object.LastModified.toISOString() : null,
+          });
+        }
+
+        continuationToken = IsTruncated ? NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return objects;
+    },
+
+    async getDownloadUrl(key, { expiresInSeconds }) {
+      return getSignedUrl(s3, new GetObjectCommand({ Bucket, Key: key }), { expiresIn: expiresInSeconds });
+    },
+  };
+}
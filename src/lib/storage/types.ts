@@ -0,0 +1,34 @@
+export const STORAGE_BACKENDS = ['s3', 'local'] as const;
+
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+export type StoredObjectInfo = {
+  size: number | null;
+  lastModified: string | null;
+};
+
+export type StoredObject = StoredObjectInfo & {
+  key: string;
+};
+
+/**
+ * Media files (AI videos, exports, uploaded sheets) addressed by key.
+ * Implemented on S3-compatible stores such as Cloudflare R2 and on the local
+ * disk (see STORAGE_BACKEND in ./index.ts). Failures are thrown.
+ */
+export interface MediaStorage {
+  readonly name: StorageBackend;
+  /** Where the files live, for messages, e.g. "bucket 'media'" */
+  readonly location: string;
+
+  putObject(key: string, body: Buffer, options: { contentType: string; fileName?: string }): Promise<void>;
+  getText(key: string): Promise<string>;
+  /** Size and last-modified date, or null when the object does not exist */
+  headObject(key: string): Promise<StoredObjectInfo | null>;
+  /** Succeeds when the object does not exist */
+  deleteObject(key: string): Promise<void>;
+  /** Every object whose key starts with `prefix` */
+  listObjects(prefix: string): Promise<StoredObject[]>;
+  /** Link to download the object, valid for `expiresInSeconds` where links expire */
+  getDownloadUrl(key: string, options: { expiresInSeconds: number }): Promise<string>;
+}
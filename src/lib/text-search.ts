@@ -0,0 +1,186 @@
+import type { VehicleRow } from "./repository";
+
+/**
+ * Full-text search over the free-text columns of a vehicle. The Supabase
+ * backend uses Postgres full-text search (see the vehicle_search migration);
+ * this module is its in-memory counterpart: words are matched on a simple
+ * stem, every word must match, "quoted phrases" must appear in order and
+ * -word excludes vehicles containing it.
+ */
+
+/**
+ * Searched columns and their weight, as the A-D weights of ts_rank
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<string, number> = {
+  series_detail: 1,
+  tags: 1,
+  features: 0.4,
+  engine: 0.4,
+  description: 0.2,
+  ai_description: 0.2,
+  notes: 0.1,
+};
+
+export const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_WEIGHTS);
+
+// Words Postgres' english configuration ignores as well
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Words around the first match shown in a snippet
+const SNIPPET_WORDS_BEFORE = 8;
+const SNIPPET_WORDS_AFTER = 16;
+
+export type SearchQuery = {
+  // Each entry is a single word or a phrase, as stems
+  required: string[][];
+  excluded: string[][];
+};
+
+type Word = { stem: string; start: number; end: number };
+
+export function stem(word: string): string {
+  let w = word.toLowerCase();
+  if (w.endsWith("'s")) w = w.slice(0, -2);
+  if (w.length > 5 && w.endsWith('ing')) return w.slice(0, -3);
+  if (w.length > 4 && w.endsWith('ed')) return w.slice(0, -2);
+  if (w.length > 3 && w.endsWith('s') && !w.endsWith('ss')) return w.slice(0, -1);
+  return w;
+}
+
+function splitWords(text: string): Word[] {
+  const words: Word[] = [];
+  const pattern = /[A-Za-z0-9\u00C0-\u024F]+(?:'s)?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    words.push({ stem: stem(match[0]), start: match.index, end: match.index + match[0].length });
+  }
+
+  return words;
+}
+
+/**
+ * Parse a web-search style query: words, "quoted phrases" and -excluded words
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { required: [], excluded: [] };
+  const pattern = /(-?)"([^"]*)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query))) {
+    const excluded = (match[1] || match[3]) === '-';
+    const stems = splitWords(match[2] ?? match[4])
+      .map(word => word.stem)
+      .filter(s => !STOP_WORDS.has(s));
+
+    if (stems.length > 0) {
+      (excluded ? parsed.excluded : parsed.required).push(stems);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Searchable text of a column; feature lists are joined item by item
+ */
+function fieldText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value
+      .map(item => item !== null && typeof item === 'object' ? Object.values(item).join(' ') : String(item))
+      .join(', ');
+  }
+  return String(value);
+}
+
+/**
+ * Positions in `words` where the phrase starts
+ */
+function findPhrase(words: Word[], phrase: string[]): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((s, j) => words[i + j].stem === s)) positions.push(i);
+  }
+  return positions;
+}
+
+export type TextSearchMatch = {
+  rank: number;
+  snippet: string | null;
+  matchedFields: string[];
+};
+
+/**
+ * Match a vehicle against a parsed query. Returns null when it does not match.
+ */
+export function matchVehicleText(vehicle: VehicleRow, query: SearchQuery): TextSearchMatch | null {
+  if (query.required.length === 0) return null;
+
+  const fields = SEARCH_FIELDS.map(field => {
+    const text = fieldText(vehicle[field]);
+    return { field, text, words: splitWords(text) };
+  });
+
+  const contains = (phrase: string[]) => fields.some(({ words }) => findPhrase(words, phrase).length > 0);
+
+  if (!query.required.every(contains) || query.excluded.some(contains)) {
+    return null;
+  }
+
+  let rank = 0;
+  const matchedFields: string[] = [];
+  let best: { text: string; words: Word[]; hits: Set<number>; score: number } | null = null;
+
+  for (const { field, text, words } of fields) {
+    const hits = new Set<number>();
+    for (const phrase of query.required) {
+      for (const position of findPhrase(words, phrase)) {
+        phrase.forEach((_, j) => hits.add(position + j));
+      }
+    }
+
+    if (hits.size === 0) continue;
+
+    const score = SEARCH_FIELD_WEIGHTS[field] * hits.size;
+    rank += score;
+    matchedFields.push(field);
+    if (!best || score > best.score) best = { text, words, hits, score };
+  }
+
+  return {
+    rank: Math.round(rank * 1000) / 1000,
+    snippet: best ? buildSnippet(best.text, best.words, best.hits) : null,
+    matchedFields,
+  };
+}
+
+/**
+ * Whether a single text matches a parsed query, e.g. a note in search-notes
+ */
+export function matchesText(text: string, query: SearchQuery): boolean {
+  if (query.required.length === 0) return false;
+  const words = splitWords(text);
+  const contains = (phrase: string[]) => findPhrase(words, phrase).length > 0;
+  return query.required.every(contains) && !query.excluded.some(contains);
+}
+
+/**
+ * Excerpt around the first matched word, with matches wrapped in **
+ */
+function buildSnippet(text: string, words: Word[], hits: Set<number>): string {
+  const first = Math.min(...hits);
+  const from = Math.max(0, first - SNIPPET_WORDS_BEFORE);
+  const to = Math.min(words.length - 1, first + SNIPPET_WORDS_AFTER);
+
+  let snippet = '';
+  let cursor = words[from].start;
+  for (let i = from; i <= to; i++) {
+    const word = words[i];
+    snippet += text.slice(cursor, word.start);
+    snippet += hits.has(i) ? `**${text.slice(word.start, word.end)}**` : text.slice(word.start, word.end);
+    cursor = word.end;
+  }
+
+  return `${from > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${to < words.length - 1 ? '…' : ''}`;
+}
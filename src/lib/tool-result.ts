@@ -0,0 +1,71 @@
+/**
+ * Helpers for building MCP tool results that carry both a human-readable
+ * text block and machine-readable structured content.
+ */
+
+export type ToolErrorCode =
+  | 'MISSING_CREDENTIALS'
+  | 'INVALID_INPUT'
+  | 'AMBIGUOUS_IDENTIFIER'
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'CONFLICT'
+  | 'CONFIRMATION_INVALID'
+  | 'DATABASE_ERROR'
+  | 'STORAGE_ERROR'
+  | 'INTERNAL_ERROR';
+
+export type ToolErrorResult = {
+  content: { type: 'text'; text: string }[];
+  structuredContent: {
+    error: {
+      code: ToolErrorCode;
+      message: string;
+      [key: string]: unknown;
+    };
+  };
+  isError: true;
+};
+
+export type ToolSuccessResult<T extends Record<string, unknown>> = {
+  content: { type: 'text'; text: string }[];
+  structuredContent: T;
+};
+
+/**
+ * Successful result: `text` is shown to the model, `structuredContent` is for programmatic clients
+ */
+export function toolSuccess<T extends Record<string, unknown>>(text: string, structuredContent: T): ToolSuccessResult<T> {
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent,
+  };
+}
+
+/**
+ * Error result flagged with `isError` and a stable error code
+ */
+export function toolError(
+  code: ToolErrorCode,
+  message: string,
+  details: Record<string, unknown> = {}
+): ToolErrorResult {
+  return {
+    content: [{ type: 'text', text: `Error: ${message}` }],
+    structuredContent: {
+      error: { code, message, ...details },
+    },
+    isError: true,
+  };
+}
+
+export function missingCredentialsError(): ToolErrorResult {
+  return toolError(
+    'MISSING_CREDENTIALS',
+    'Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env file, or DATA_SOURCE=memory to run on local fixtures'
+  );
+}
+
+export function unexpectedError(err: unknown): ToolErrorResult {
+  return toolError('INTERNAL_ERROR', err instanceof Error ? err.message : 'Unknown error');
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRepository } from "./repository";
+import { applyUpdateSheet, parseUpdateSheet } from "./update-sheet";
+
+test('parseUpdateSheet normalises certified and inventory_date', () => {
+  const sheet = parseUpdateSheet([
+    'Stock Number,Certified,Inventory Date',
+    'P1001,yes,2025-01-31T09:30:00Z',
+    'P1002,N,3/7/2025',
+    'P1003,maybe,2025-02-30',
+    'P1004,No,next tuesday',
+  ].join('\n'));
+
+  assert.deepEqual(sheet.rows[0].values, { certified: 'Yes', inventory_date: '2025-01-31' });
+  assert.deepEqual(sheet.rows[1].values, { certified: 'No', inventory_date: '2025-03-07' });
+  assert.equal(sheet.rows[2].errors.length, 2);
+  assert.match(sheet.rows[3].errors[0], /inventory_date is not a date/);
+});
+
+test('applyUpdateSheet reports a stock number shared by several vehicles', async () => {
+  const repository = createMemoryRepository({
+    vehicles: [
+      { id: 1, vin: 'WP0AB2A99KS123456', stock_number: 'P1001', price: 100000 },
+      { id: 2, vin: 'ZFF79ALA0J0229876', stock_number: 'p1001', price: 200000 },
+    ],
+  });
+
+  const report = await applyUpdateSheet(repository, parseUpdateSheet([
+    'VIN,Stock Number,Price',
+    ',P1001,150000',
+    'ZFF79ALA0J0229876,P1001,210000',
+  ].join('\n')), { dryRun: true });
+
+  assert.equal(report.rows[0].status, 'invalid');
+  assert.match(report.rows[0].errors[0], /Stock number P1001 is ambiguous.*IDs 1, 2/);
+  assert.equal(report.rows[1].status, 'would_apply');
+  assert.equal(report.rows[1].vehicleId, 2);
+});
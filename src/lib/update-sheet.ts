@@ -0,0 +1,443 @@
+import { z } from "zod";
+import { findAllVehicles, type VehicleRepository, type VehicleRow } from "./repository";
+import { diffColumns, recordAudit, type AuditChanges } from "./audit";
+import { diffPrices, recordPriceChanges, syncPriceHistory } from "./price-history";
+import { normalizeHeader, parseCsv, toNumber } from "./vauto-feed";
+import { normalizeVin, checkVin, describeVinProblems } from "./vin";
+import { addLockedFields, getLockedFields, sameFields } from "./field-locks";
+import { validateTagList, formatTags } from "./vehicle-tags";
+
+/**
+ * Bulk updates from a spreadsheet (CSV) with one row per vehicle, keyed by
+ * VIN or stock number, with columns for the fields update-vehicles can set.
+ * Empty cells leave the current value as it is.
+ */
+
+// Tool name recorded in the audit log and the price history
+export const UPDATE_SHEET_AUDIT_TOOL = 'import-updates';
+
+const MAX_PRICE = 20_000_000;
+const MAX_ODOMETER = 1_000_000;
+
+const KEY_ALIASES: Record<'vin' | 'stock_number', string[]> = {
+  vin: ['vin'],
+  stock_number: ['stocknumber', 'stock', 'stockno', 'stocknum'],
+};
+
+/**
+ * Header names accepted for each updatable column, compared like the vAuto
+ * feed headers (see normalizeHeader), so "Custom Price", "custom_price" and
+ * "customPrice" all match
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  price: ['price', 'internetprice', 'sellingprice'],
+  custom_price: ['customprice', 'specialprice'],
+  colour: ['colour', 'color', 'exteriorcolor', 'exteriorcolour'],
+  interior_color: ['interiorcolor', 'interiorcolour'],
+  description: ['description'],
+  ai_description: ['aidescription'],
+  odometer: ['odometer', 'mileage', 'miles'],
+  new_used: ['newused', 'neworused', 'condition'],
+  certified: ['certified'],
+  dealer_name: ['dealername'],
+  tags: ['tags'],
+  inventory_date: ['inventorydate'],
+};
+
+export const UPDATE_SHEET_FIELDS = Object.keys(FIELD_ALIASES);
+
+const HEADER_TO_COLUMN = new Map<string, string>(
+  Object.entries({ ...KEY_ALIASES, ...FIELD_ALIASES }).flatMap(([column, aliases]) => aliases.map(alias => [alias, column] as [string, string]))
+);
+
+function parsePrice(value: string): number {
+  const price = toNumber(value);
+  if (price <= 0 || price > MAX_PRICE) {
+    throw new Error(`must be between $1 and $${MAX_PRICE.toLocaleString()}, got ${value}`);
+  }
+  return price;
+}
+
+/**
+ * Date as YYYY-MM-DD, from YYYY-MM-DD (optionally followed by a time) or the
+ * M/D/YYYY spreadsheets use. Throws for anything else or an impossible date.
+ */
+function parseDate(value: string): string {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(value);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]].map(Number)
+    : us ? [us[3], us[1], us[2]].map(Number) : [NaN, NaN, NaN];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`is not a date: ${value}. Use YYYY-MM-DD`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Conversion and range check per column. Throws with the reason when the cell is invalid.
+ */
+const FIELD_RULES: Record<string, (value: string) => unknown> = {
+  price: parsePrice,
+  custom_price: parsePrice,
+  odometer: value => {
+    const odometer = toNumber(value);
+    if (!Number.isInteger(odometer) || odometer < 0 || odometer > MAX_ODOMETER) {
+      throw new Error(`must be a whole number of miles between 0 and ${MAX_ODOMETER.toLocaleString()}, got ${value}`);
+    }
+    return odometer;
+  },
+  new_used: value => {
+    const condition = value.toLowerCase();
+    if (condition !== 'new' && condition !== 'used') {
+      throw new Error(`must be 'New' or 'Used', got ${value}`);
+    }
+    return condition === 'new' ? 'New' : 'Used';
+  },
+  certified: value => {
+    const certified = value.toLowerCase();
+    if (['yes', 'y', 'true', '1'].includes(certified)) return 'Yes';
+    if (['no', 'n', 'false', '0'].includes(certified)) return 'No';
+    throw new Error(`must be 'Yes' or 'No', got ${value}`);
+  },
+  tags: value => {
+    const validated = validateTagList(value);
+    if ('error' in validated) {
+      throw new Error(`are invalid: ${validated.error}`);
+    }
+    return formatTags(validated.tags);
+  },
+  inventory_date: value => {
+    const date = parseDate(value);
+    if (date > new Date().toISOString().slice(0, 10)) {
+      throw new Error(`is in the future: ${value}`);
+    }
+    return date;
+  },
+};
+
+export type UpdateSheetRow = {
+  // Row number as shown in a spreadsheet, the header being row 1
+  row: number;
+  vin: string | null;
+  stockNumber: string | null;
+  values: VehicleRow;
+  errors: string[];
+};
+
+export type ParsedUpdateSheet = {
+  rows: UpdateSheetRow[];
+  columns: string[];
+  unmappedColumns: string[];
+};
+
+/**
+ * Parse and validate an update sheet. Throws when the sheet itself is
+ * unusable (no key or field column); row problems are kept per row.
+ */
+export function parseUpdateSheet(content: string): ParsedUpdateSheet {
+  const [headers, ...records] = parseCsv(content);
+  if (!headers) {
+    throw new Error('The sheet is empty');
+  }
+
+  const columnByIndex = headers.map(header => HEADER_TO_COLUMN.get(normalizeHeader(header)) ?? null);
+  const columns = [...new Set(columnByIndex.filter((column): column is string => column !== null))];
+  const unmappedColumns = headers.filter((header, i) => columnByIndex[i] === null && header.trim() !== '');
+
+  if (!columns.includes('vin') && !columns.includes('stock_number')) {
+    throw new Error(`The sheet needs a 'VIN' or 'Stock Number' column to identify the vehicles`);
+  }
+
+  if (!columns.some(column => UPDATE_SHEET_FIELDS.includes(column))) {
+    throw new Error(`The sheet has no column to update. Supported columns: ${UPDATE_SHEET_FIELDS.join(', ')}`);
+  }
+
+  const rows = records.map((record, i): UpdateSheetRow => {
+    const values: VehicleRow = {};
+    const errors: string[] = [];
+    let vin: string | null = null;
+    let stockNumber: string | null = null;
+
+    columnByIndex.forEach((column, j) => {
+      const cell = (record[j] ?? '').trim();
+      if (!column || cell === '') return;
+
+      if (column === 'vin') {
+        vin = normalizeVin(cell);
+      } else if (column === 'stock_number') {
+        stockNumber = cell;
+      } else if (!(column in values)) {
+        try {
+          values[column] = FIELD_RULES[column] ? FIELD_RULES[column](cell) : cell;
+        } catch (err) {
+          errors.push(`${column} ${err instanceof Error ? err.message : 'is invalid'}`);
+        }
+      }
+    });
+
+    if (!vin && !stockNumber) {
+      errors.push('Missing VIN and stock number');
+    }
+
+    return { row: i + 2, vin, stockNumber, values, errors };
+  });
+
+  return { rows, columns, unmappedColumns };
+}
+
+export const UPDATE_ROW_STATUSES = ['applied', 'would_apply', 'unchanged', 'unknown_vehicle', 'invalid', 'failed'] as const;
+
+export const updateRowResultSchema = z.object({
+  row: z.number().describe("Spreadsheet row number (the header is row 1)"),
+  vin: z.string().nullable(),
+  stockNumber: z.string().nullable(),
+  vehicleId: z.number().nullable(),
+  status: z.enum(UPDATE_ROW_STATUSES).describe("'would_apply' only in a dry run; 'failed' when the database write failed"),
+  changes: z.record(z.object({
+    before: z.unknown(),
+    after: z.unknown(),
+  })).describe("Columns that change, with their current and new value"),
+  errors: z.array(z.string()).describe("Why the row was not applied"),
+});
+
+export const updateSheetReportSchema = z.object({
+  dryRun: z.boolean().describe("Whether this was a preview that wrote nothing"),
+  totalRows: z.number(),
+  applied: z.number().describe("Vehicles updated, or that would be updated in a dry run"),
+  unchanged: z.number().describe("Rows matching the current values"),
+  unknownVehicle: z.number().describe("Rows whose VIN or stock number matches no active vehicle"),
+  invalid: z.number().describe("Rows with validation errors"),
+  failed: z.number().describe("Rows whose update failed in the database"),
+  rows: z.array(updateRowResultSchema),
+  lockedFields: z.array(z.string()).describe("Updated columns locked against the vAuto import"),
+  unmappedColumns: z.array(z.string()).describe("Sheet columns that were ignored"),
+  auditWarning: z.string().nullable().describe("Set when the changes could not be recorded in the audit log"),
+});
+
+export type UpdateRowResult = z.infer<typeof updateRowResultSchema>;
+export type UpdateSheetReport = z.infer<typeof updateSheetReportSchema>;
+
+function sameValue(current: unknown, next: unknown): boolean {
+  if (current === null || current === undefined) return false;
+  if (typeof next === 'number') return Number(current) === next;
+  return String(current) === String(next);
+}
+
+/**
+ * Apply a parsed update sheet to the active vehicles. Every row is checked
+ * before anything is written; invalid rows and unknown vehicles are reported
+ * and skipped, the other rows are applied. Throws when the inventory cannot be read.
+ */
+export async function applyUpdateSheet(
+  repository: VehicleRepository,
+  sheet: ParsedUpdateSheet,
+  { dryRun = false, lockFields = true }: { dryRun?: boolean; lockFields?: boolean } = {}
+): Promise<UpdateSheetReport> {
+  const fieldColumns = sheet.columns.filter(column => UPDATE_SHEET_FIELDS.includes(column));
+  const lockedFields = lockFields ? addLockedFields({}, fieldColumns) : [];
+  const selectColumns = ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'locked_fields', ...fieldColumns];
+
+  const { data: vehicles, error } = await findAllVehicles(repository, { columns: selectColumns });
+  if (error) {
+    throw new Error(`Failed to read the current inventory: ${error.message}`);
+  }
+
+  const byVin = new Map<string, VehicleRow>();
+  // Stock numbers are not unique in the inventory, so keep every vehicle per stock number
+  const byStockNumber = new Map<string, VehicleRow[]>();
+  for (const vehicle of vehicles) {
+    const vin = normalizeVin(vehicle.vin);
+    if (vin) byVin.set(vin, vehicle);
+    if (vehicle.stock_number) {
+      const stockNumber = String(vehicle.stock_number).trim().toUpperCase();
+      byStockNumber.set(stockNumber, [...(byStockNumber.get(stockNumber) ?? []), vehicle]);
+    }
+  }
+
+  const results: UpdateRowResult[] = [];
+  const planned: { result: UpdateRowResult; vehicle: VehicleRow; patch: VehicleRow }[] = [];
+  const rowByVehicle = new Map<number, number>();
+
+  for (const row of sheet.rows) {
+    const result: UpdateRowResult = {
+      row: row.row,
+      vin: row.vin,
+      stockNumber: row.stockNumber,
+      vehicleId: null,
+      status: 'invalid',
+      changes: {},
+      errors: [...row.errors],
+    };
+    results.push(result);
+
+    if (result.errors.length > 0) continue;
+
+    const vinMatch = row.vin ? byVin.get(row.vin) : undefined;
+    const stockMatches = row.stockNumber ? byStockNumber.get(row.stockNumber.toUpperCase()) ?? [] : [];
+
+    // A shared stock number only identifies a vehicle together with its VIN
+    if (stockMatches.length > 1 && !vinMatch) {
+      result.errors.push(`Stock number ${row.stockNumber} is ambiguous: it matches ${stockMatches.length} vehicles (IDs ${stockMatches.map(vehicle => vehicle.id).join(', ')}). Add the VIN to the row`);
+      continue;
+    }
+
+    const stockMatch = stockMatches.find(vehicle => vehicle.id === vinMatch?.id) ?? stockMatches[0];
+
+    if (vinMatch && stockMatch && vinMatch.id !== stockMatch.id) {
+      result.errors.push(`VIN and stock number belong to different vehicles (IDs ${vinMatch.id} and ${stockMatch.id})`);
+      continue;
+    }
+
+    const vehicle = vinMatch || stockMatch;
+    if (!vehicle || (row.vin && !vinMatch) || (row.stockNumber && !stockMatch)) {
+      const vinCheck = row.vin ? checkVin(row.vin) : null;
+      result.status = 'unknown_vehicle';
+      result.errors.push(vinCheck && !vinCheck.valid
+        ? `No active vehicle found. ${describeVinProblems(vinCheck)}`
+        : 'No active vehicle with this VIN or stock number');
+      continue;
+    }
+
+    result.vehicleId = vehicle.id;
+
+    const earlierRow = rowByVehicle.get(vehicle.id);
+    if (earlierRow !== undefined) {
+      result.errors.push(`Same vehicle as row ${earlierRow}`);
+      continue;
+    }
+    rowByVehicle.set(vehicle.id, row.row);
+
+    const patch: VehicleRow = {};
+    for (const [column, value] of Object.entries(row.values)) {
+      if (!sameValue(vehicle[column], value)) {
+        patch[column] = value;
+        result.changes[column] = { before: vehicle[column] ?? null, after: value };
+      }
+    }
+
+    if (Object.keys(patch).length === 0) {
+      result.status = 'unchanged';
+      continue;
+    }
+
+    // Manual updates of vAuto fields are locked, as with update-vehicles
+    const locks = addLockedFields(vehicle, Object.keys(patch).filter(column => lockedFields.includes(column)));
+    if (!sameFields(locks, getLockedFields(vehicle))) {
+      patch.locked_fields = locks;
+    }
+
+    result.status = 'would_apply';
+    planned.push({ result, vehicle, patch });
+  }
+
+  let auditWarning: string | null = null;
+
+  if (!dryRun && planned.length > 0) {
+    const updatedAt = new Date().toISOString();
+    const before: VehicleRow[] = [];
+    const after: VehicleRow[] = [];
+    const changes: AuditChanges = {};
+
+    for (const { result, vehicle, patch } of planned) {
+      const { data: updated, error: updateError } = await repository.updateVehicles(
+        [vehicle.id],
+        { ...patch, updated_at: updatedAt },
+        { columns: selectColumns }
+      );
+
+      if (updateError || updated.length !== 1) {
+        result.status = 'failed';
+        result.errors.push(`Update failed: ${updateError?.message || 'vehicle was not updated'}`);
+        continue;
+      }
+
+      result.status = 'applied';
+      before.push(vehicle);
+      after.push(updated[0]);
+      changes[vehicle.id] = diffColumns(vehicle, updated[0], Object.keys(patch));
+    }
+
+    // First any vAuto price changes since the last recorded value, then this import
+    await syncPriceHistory(repository, before);
+    await recordPriceChanges(repository, { source: UPDATE_SHEET_AUDIT_TOOL, changes: diffPrices(before, after) });
+
+    const audit = await recordAudit(repository, { tool: UPDATE_SHEET_AUDIT_TOOL, changes });
+    auditWarning = audit.success ? null : audit.error || 'Unknown error';
+  }
+
+  const count = (...statuses: UpdateRowResult['status'][]) => results.filter(r => statuses.includes(r.status)).length;
+
+  return {
+    dryRun,
+    totalRows: sheet.rows.length,
+    applied: count('applied', 'would_apply'),
+    unchanged: count('unchanged'),
+    unknownVehicle: count('unknown_vehicle'),
+    invalid: count('invalid'),
+    failed: count('failed'),
+    rows: results,
+    lockedFields: lockedFields.filter(column => planned.some(({ patch }) => column in patch)),
+    unmappedColumns: sheet.unmappedColumns,
+    auditWarning,
+  };
+}
+
+const STATUS_LABELS: Record<UpdateRowResult['status'], string> = {
+  applied: '✅ applied',
+  would_apply: '🔍 would apply',
+  unchanged: 'unchanged',
+  unknown_vehicle: '❓ unknown vehicle',
+  invalid: '❌ validation error',
+  failed: '⚠️ failed',
+};
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value).replace(/\s+/g, ' ').replace(/\|/g, '\\|').slice(0, 60);
+}
+
+/**
+ * Summary and per-row result table of an update sheet run
+ */
+export function formatUpdateSheetReport(report: UpdateSheetReport): string {
+  const lines = [
+    `${report.dryRun ? 'Preview of the update sheet (nothing was written)' : 'Update sheet imported'}:`,
+    '',
+    `Rows: ${report.totalRows} | ${report.dryRun ? 'Would apply' : 'Applied'}: ${report.applied} | Unchanged: ${report.unchanged} | Unknown vehicle: ${report.unknownVehicle} | Validation errors: ${report.invalid}${report.failed > 0 ? ` | Failed: ${report.failed}` : ''}`,
+    '',
+    '| Row | VIN / Stock Number | Vehicle ID | Result | Details |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+
+  for (const result of report.rows) {
+    const changeList = Object.entries(result.changes)
+      .map(([column, { before, after }]) => `${column}: ${formatCell(before)} → ${formatCell(after)}`);
+    const details = [...changeList, ...result.errors.map(error => error.replace(/\|/g, '\\|'))].join('; ') || '-';
+    const key = [result.vin, result.stockNumber].filter(Boolean).join(' / ') || '-';
+    lines.push(`| ${result.row} | ${key} | ${result.vehicleId ?? '-'} | ${STATUS_LABELS[result.status]} | ${details} |`);
+  }
+
+  if (report.lockedFields.length > 0) {
+    lines.push('', report.dryRun
+      ? `🔒 Would be locked against the vAuto import: ${report.lockedFields.join(', ')}.`
+      : `🔒 Locked against the vAuto import: ${report.lockedFields.join(', ')}. Use unlock-fields to let the feed update them again.`);
+  }
+
+  if (report.unmappedColumns.length > 0) {
+    lines.push('', `Ignored columns: ${report.unmappedColumns.join(', ')}`);
+  }
+
+  if (report.dryRun && report.applied > 0) {
+    lines.push('', 'To apply, call import-updates again with the same sheet without dryRun.');
+  }
+
+  if (report.auditWarning) {
+    lines.push('', `⚠️  Warning: The changes were applied but could not be recorded in the audit log: ${report.auditWarning}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,251 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import type { VehicleRow } from "./repository";
+import { normalizeVin } from "./vin";
+
+/**
+ * Reading vAuto inventory exports (CSV or JSON) and mapping their columns to
+ * the `vehicles` table.
+ */
+
+export const FEED_FORMATS = ['csv', 'json'] as const;
+
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+/**
+ * Header names accepted for each `vehicles` column. Headers are compared
+ * case-insensitively and without spaces or punctuation, so "Stock #",
+ * "stock_number" and "StockNumber" all match `stocknumber`.
+ */
+const COLUMN_ALIASES: Record<string, string[]> = {
+  vin: ['vin'],
+  stock_number: ['stocknumber', 'stock', 'stockno', 'stocknum'],
+  year: ['year', 'modelyear'],
+  make: ['make'],
+  model: ['model'],
+  series: ['series', 'trim'],
+  series_detail: ['seriesdetail', 'trimdetail'],
+  model_code: ['modelcode', 'modelnumber'],
+  price: ['price', 'internetprice', 'sellingprice'],
+  msrp: ['msrp'],
+  colour: ['colour', 'color', 'exteriorcolor', 'exteriorcolour'],
+  interior_color: ['interiorcolor', 'interiorcolour'],
+  body: ['body', 'bodystyle', 'bodytype'],
+  door_count: ['doorcount', 'doors'],
+  new_used: ['newused', 'neworused', 'condition'],
+  certified: ['certified'],
+  age: ['age', 'daysininventory'],
+  odometer: ['odometer', 'mileage', 'miles'],
+  inventory_date: ['inventorydate'],
+  transmission: ['transmission'],
+  drivetrain_desc: ['drivetraindesc', 'drivetrain'],
+  fuel: ['fuel', 'fueltype'],
+  engine: ['engine'],
+  engine_cylinder_count: ['enginecylindercount', 'cylinders'],
+  engine_displacement: ['enginedisplacement', 'displacement'],
+  city_mpg: ['citympg'],
+  highway_mpg: ['highwaympg'],
+  description: ['description', 'dealercomments', 'comments'],
+  dealer_name: ['dealername'],
+  dealer_id: ['dealerid'],
+  photo_count: ['photocount'],
+  photos_last_modified_date: ['photoslastmodifieddate'],
+  photos: ['photos', 'photourls', 'imageurls'],
+  images_hd: ['imageshd'],
+  sticker_url: ['stickerurl', 'windowstickerurl'],
+  features: ['features', 'options'],
+};
+
+/**
+ * Columns the vAuto feed writes
+ */
+export const VAUTO_COLUMNS = Object.keys(COLUMN_ALIASES);
+
+const NUMBER_COLUMNS = new Set([
+  'year', 'price', 'msrp', 'door_count', 'age', 'odometer',
+  'engine_cylinder_count', 'city_mpg', 'highway_mpg', 'photo_count',
+]);
+
+const LIST_COLUMNS = new Set(['photos', 'images_hd', 'features']);
+
+// Columns that may hold either a string or a number (see vehicleSchema)
+const MIXED_COLUMNS = new Set(['engine_displacement', 'dealer_id']);
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const HEADER_TO_COLUMN = new Map(
+  Object.entries(COLUMN_ALIASES).flatMap(([column, aliases]) => aliases.map(alias => [alias, column] as const))
+);
+
+/**
+ * A record of the feed as read from the file, before mapping
+ */
+export type FeedRecord = Record<string, unknown>;
+
+export type MappedFeedRow =
+  | { row: number; vin: string; values: VehicleRow; error?: undefined }
+  | { row: number; vin: string | null; values?: undefined; error: string };
+
+export function detectFeedFormat(content: string, path?: string): FeedFormat {
+  const extension = path ? extname(path).toLowerCase() : '';
+  if (extension === '.json') return 'json';
+  if (extension === '.csv') return 'csv';
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv';
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may contain commas, quotes and newlines)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Records of a feed file. JSON feeds are an array of objects or `{ "vehicles": [...] }`.
+ */
+export function parseFeed(content: string, format: FeedFormat): FeedRecord[] {
+  if (format === 'json') {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed?.vehicles;
+    if (!Array.isArray(records)) {
+      throw new Error(`A JSON feed must be an array of vehicles or an object with a 'vehicles' array`);
+    }
+    return records;
+  }
+
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers) return [];
+
+  return rows.map(values => Object.fromEntries(headers.map((header, i) => [header.trim(), values[i] ?? ''])));
+}
+
+export async function readFeedFile(path: string, format?: FeedFormat): Promise<FeedRecord[]> {
+  const content = await readFile(path, 'utf8');
+  return parseFeed(content, format || detectFeedFormat(content, path));
+}
+
+/**
+ * Feed headers that do not map to a `vehicles` column and are ignored
+ */
+export function findUnmappedHeaders(records: FeedRecord[]): string[] {
+  const headers = new Set(records.filter(isFeedRecord).flatMap(record => Object.keys(record)));
+  return [...headers].filter(header => !HEADER_TO_COLUMN.has(normalizeHeader(header)));
+}
+
+/**
+ * JSON feeds are not checked when parsed, so an element may be null, a list or a scalar
+ */
+function isFeedRecord(record: unknown): record is FeedRecord {
+  return record !== null && typeof record === 'object' && !Array.isArray(record);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+export function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  // "$12,345", "12 345 mi"
+  const n = Number(String(value).replace(/[$,\s]|mi(les)?$/gi, ''));
+  if (isNaN(n)) throw new Error(`not a number: "${value}"`);
+  return n;
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed;
+  }
+  // vAuto separates list items with pipes; fall back to commas
+  return text.split(text.includes('|') ? '|' : ',').map(item => item.trim()).filter(Boolean);
+}
+
+function convertValue(column: string, value: unknown): unknown {
+  if (isEmpty(value)) return null;
+  if (NUMBER_COLUMNS.has(column)) return toNumber(value);
+  if (LIST_COLUMNS.has(column)) return toList(value);
+  if (MIXED_COLUMNS.has(column) && typeof value === 'number') return value;
+  return String(value).trim();
+}
+
+/**
+ * Map a feed record to `vehicles` columns. Only columns present in the feed
+ * are returned, so columns the feed does not carry are left untouched.
+ * `row` is the 1-based position of the record in the feed.
+ */
+export function mapFeedRecord(record: FeedRecord, row: number): MappedFeedRow {
+  if (!isFeedRecord(record)) {
+    return { row, vin: null, error: `Not a vehicle record: expected an object, got ${record === null ? 'null' : Array.isArray(record) ? 'an array' : typeof record}` };
+  }
+
+  const values: VehicleRow = {};
+  const problems: string[] = [];
+
+  for (const [header, value] of Object.entries(record)) {
+    const column = HEADER_TO_COLUMN.get(normalizeHeader(header));
+    if (!column || column in values) continue;
+
+    try {
+      values[column] = convertValue(column, value);
+    } catch (err) {
+      problems.push(`'${header}' ${err instanceof Error ? err.message : 'is invalid'}`);
+    }
+  }
+
+  const vin = normalizeVin(values.vin);
+
+  if (!vin) {
+    return { row, vin: null, error: 'Missing VIN' };
+  }
+
+  if (problems.length > 0) {
+    return { row, vin, error: `Invalid values: ${problems.join('; ')}` };
+  }
+
+  return { row, vin, values: { ...values, vin } };
+}
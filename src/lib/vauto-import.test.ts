@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRepository } from "./repository";
+import { parseFeed } from "./vauto-feed";
+import { importVautoFeed } from "./vauto-import";
+
+test('importVautoFeed reports JSON elements that are not objects as row errors', async () => {
+  const records = parseFeed('[null, 5, ["VIN"], {"VIN": "WP0AB2A99KS123456", "Make": "Porsche"}]', 'json');
+
+  const report = await importVautoFeed(createMemoryRepository({ vehicles: [] }), records, { dryRun: true });
+
+  assert.equal(report.added, 1);
+  assert.equal(report.skipped, 3);
+  assert.deepEqual(report.errors.map(error => error.row), [1, 2, 3]);
+  assert.match(report.errors[0].message, /expected an object, got null/);
+  assert.deepEqual(report.unmappedColumns, []);
+});
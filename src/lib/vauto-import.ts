@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { findAllVehicles, type VehicleRepository, type VehicleRow } from "./repository";
+import { diffColumns, recordAudit, type AuditChanges } from "./audit";
+import { diffPrices, recordPriceChanges, syncPriceHistory, VAUTO_ACTOR } from "./price-history";
+import { findUnmappedHeaders, mapFeedRecord, type FeedRecord } from "./vauto-feed";
+import { normalizeVin } from "./vin";
+import { getLockedFields } from "./field-locks";
+
+// Tool name recorded in the audit log, for the tool and the CLI alike
+export const IMPORT_AUDIT_TOOL = 'import-vauto-feed';
+
+export const REMOVED_FROM_FEED_REASON = 'No longer in the vAuto feed';
+
+export const importRowErrorSchema = z.object({
+  row: z.number().describe("1-based position of the record in the feed (0 for errors not tied to a row)"),
+  vin: z.string().nullable(),
+  message: z.string(),
+});
+
+export const importReportSchema = z.object({
+  dryRun: z.boolean().describe("Whether this was a preview that wrote nothing"),
+  totalRows: z.number().describe("Records in the feed"),
+  added: z.number().describe("New vehicles inserted"),
+  updated: z.number().describe("Existing vehicles whose data changed, including restored ones"),
+  restored: z.number().describe("Vehicles in the trash brought back because they are in the feed again"),
+  unchanged: z.number().describe("Vehicles already up to date"),
+  removed: z.number().describe("Vehicles moved to the trash because they are no longer in the feed"),
+  skipped: z.number().describe("Feed records not imported because of an error"),
+  suppressed: z.number().describe("Feed records ignored because their VIN is on the suppression list"),
+  errors: z.array(importRowErrorSchema).describe("Row-level errors"),
+  addedVins: z.array(z.string()),
+  updatedVins: z.array(z.string()),
+  removedVins: z.array(z.string()),
+  suppressedVins: z.array(z.string()),
+  lockedFields: z.array(z.object({
+    vin: z.string(),
+    fields: z.array(z.string()),
+  })).describe("Locked fields that kept their value although the feed has a different one"),
+  unmappedColumns: z.array(z.string()).describe("Feed columns that do not map to a vehicles column and were ignored"),
+});
+
+export type ImportRowError = z.infer<typeof importRowErrorSchema>;
+export type ImportReport = z.infer<typeof importReportSchema>;
+
+export type ImportOptions = {
+  dryRun?: boolean;
+  // Soft delete active vehicles that are not in the feed (default true)
+  removeMissing?: boolean;
+};
+
+/**
+ * The vehicle a feed VIN refers to: the active one if there is any, else the
+ * most recently deleted
+ */
+function indexByVin(vehicles: VehicleRow[]): Map<string, VehicleRow> {
+  const byVin = new Map<string, VehicleRow>();
+
+  for (const vehicle of vehicles) {
+    const vin = normalizeVin(vehicle.vin);
+    if (!vin) continue;
+
+    const current = byVin.get(vin);
+    const better = !current ||
+      (current.deleted_at && !vehicle.deleted_at) ||
+      (current.deleted_at && vehicle.deleted_at && vehicle.deleted_at > current.deleted_at);
+
+    if (better) byVin.set(vin, vehicle);
+  }
+
+  return byVin;
+}
+
+/**
+ * Import a vAuto feed: insert new VINs, update changed vehicles, restore
+ * vehicles from the trash that are back in the feed and soft delete active
+ * vehicles whose VIN is no longer in it. Suppressed VINs are ignored, locked
+ * fields keep their value and vehicles without a VIN are never touched.
+ * Throws when the existing inventory cannot be read.
+ */
+export async function importVautoFeed(
+  repository: VehicleRepository,
+  records: FeedRecord[],
+  { dryRun = false, removeMissing = true }: ImportOptions = {}
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    dryRun,
+    totalRows: records.length,
+    added: 0,
+    updated: 0,
+    restored: 0,
+    unchanged: 0,
+    removed: 0,
+    skipped: 0,
+    suppressed: 0,
+    errors: [],
+    addedVins: [],
+    updatedVins: [],
+    removedVins: [],
+    suppressedVins: [],
+    lockedFields: [],
+    unmappedColumns: findUnmappedHeaders(records),
+  };
+
+  const fail = (row: number, vin: string | null, message: string) => {
+    report.errors.push({ row, vin, message });
+    report.skipped++;
+  };
+
+  // Map and validate the feed. Every VIN seen counts as present, even on rows
+  // with errors, so a typo in one row never removes the vehicle.
+  const feedVins = new Set<string>();
+  const firstRowByVin = new Map<string, number>();
+  const rows: { row: number; vin: string; values: VehicleRow }[] = [];
+
+  records.forEach((record, i) => {
+    const mapped = mapFeedRecord(record, i + 1);
+    if (mapped.vin) feedVins.add(mapped.vin);
+
+    if (mapped.error !== undefined) {
+      fail(mapped.row, mapped.vin, mapped.error);
+      return;
+    }
+
+    const firstRow = firstRowByVin.get(mapped.vin);
+    if (firstRow !== undefined) {
+      fail(mapped.row, mapped.vin, `Duplicate VIN, already in row ${firstRow}`);
+      return;
+    }
+
+    firstRowByVin.set(mapped.vin, mapped.row);
+    rows.push(mapped);
+  });
+
+  const { data: existing, error } = await findAllVehicles(repository, { deleted: 'include' });
+  if (error) {
+    throw new Error(`Failed to read the current inventory: ${error.message}`);
+  }
+
+  const { data: suppressions, error: suppressionError } = await repository.findVinSuppressions();
+  if (suppressionError) {
+    throw new Error(`Failed to read the VIN suppression list: ${suppressionError.message}`);
+  }
+
+  const suppressedVins = new Set(suppressions.map(suppression => suppression.vin));
+  const byVin = indexByVin(existing);
+  const now = new Date().toISOString();
+
+  const inserts: { row: number; values: VehicleRow }[] = [];
+  const updates: { row: number; vehicle: VehicleRow; values: VehicleRow }[] = [];
+
+  for (const { row, vin, values } of rows) {
+    const vehicle = byVin.get(vin);
+
+    if (suppressedVins.has(vin)) {
+      report.suppressed++;
+      report.suppressedVins.push(vin);
+      continue;
+    }
+
+    if (!vehicle) {
+      inserts.push({ row, values: { ...values, created_at: now, updated_at: now } });
+      continue;
+    }
+
+    const changed = Object.keys(diffColumns(vehicle, { ...vehicle, ...values }, Object.keys(values)));
+    const locked = getLockedFields(vehicle);
+    const kept = changed.filter(column => locked.includes(column));
+    const patch: VehicleRow = Object.fromEntries(
+      changed.filter(column => !locked.includes(column)).map(column => [column, values[column]])
+    );
+
+    if (kept.length > 0) {
+      report.lockedFields.push({ vin, fields: kept });
+    }
+
+    if (vehicle.deleted_at) {
+      patch.deleted_at = null;
+      patch.deletion_reason = null;
+    }
+
+    if (Object.keys(patch).length === 0) {
+      report.unchanged++;
+      continue;
+    }
+
+    updates.push({ row, vehicle, values: { ...patch, updated_at: now } });
+  }
+
+  // An empty or unreadable feed must not empty the inventory
+  const removals = removeMissing && rows.length > 0
+    ? existing.filter(vehicle => {
+      const vin = normalizeVin(vehicle.vin);
+      return vin && !vehicle.deleted_at && !feedVins.has(vin) && byVin.get(vin) === vehicle;
+    })
+    : [];
+
+  if (removeMissing && rows.length === 0 && records.length > 0) {
+    report.errors.push({ row: 0, vin: null, message: 'No valid records in the feed, no vehicles were removed' });
+  }
+
+  const changes: AuditChanges = {};
+  const before: VehicleRow[] = [];
+  const after: VehicleRow[] = [];
+
+  // Inserts
+  if (inserts.length > 0) {
+    if (dryRun) {
+      report.added = inserts.length;
+      report.addedVins = inserts.map(insert => insert.values.vin);
+    } else {
+      const { data, error } = await repository.insertVehicles(inserts.map(insert => insert.values));
+
+      if (error) {
+        inserts.forEach(insert => fail(insert.row, insert.values.vin, `Insert failed: ${error.message}`));
+      } else {
+        for (const vehicle of data) {
+          report.added++;
+          report.addedVins.push(vehicle.vin);
+          changes[vehicle.id] = diffColumns({}, vehicle, Object.keys(vehicle).filter(column => column !== 'created_at'));
+        }
+      }
+    }
+  }
+
+  // Updates and restores, one write per vehicle since every patch differs
+  for (const { row, vehicle, values } of updates) {
+    if (!dryRun) {
+      const { error } = await repository.updateVehicles([vehicle.id], values);
+      if (error) {
+        fail(row, vehicle.vin, `Update failed: ${error.message}`);
+        continue;
+      }
+
+      const updated = { ...vehicle, ...values };
+      changes[vehicle.id] = diffColumns(vehicle, updated, Object.keys(values));
+      before.push(vehicle);
+      after.push(updated);
+    }
+
+    report.updated++;
+    report.updatedVins.push(normalizeVin(vehicle.vin)!);
+    if (vehicle.deleted_at) report.restored++;
+  }
+
+  // Removals
+  if (removals.length > 0) {
+    const values = { deleted_at: now, deletion_reason: REMOVED_FROM_FEED_REASON, updated_at: now };
+    const { error } = dryRun
+      ? { error: null }
+      : await repository.updateVehicles(removals.map(vehicle => vehicle.id), values);
+
+    if (error) {
+      report.errors.push({ row: 0, vin: null, message: `Removing ${removals.length} vehicles no longer in the feed failed: ${error.message}` });
+    } else {
+      report.removed = removals.length;
+      report.removedVins = removals.map(vehicle => normalizeVin(vehicle.vin)!);
+
+      if (!dryRun) {
+        for (const vehicle of removals) {
+          changes[vehicle.id] = diffColumns(vehicle, { ...vehicle, ...values }, Object.keys(values));
+        }
+      }
+    }
+  }
+
+  if (!dryRun) {
+    await recordAudit(repository, { tool: IMPORT_AUDIT_TOOL, changes });
+    // Prices changed outside the import since they were last recorded, then the import's own changes
+    await syncPriceHistory(repository, before);
+    await recordPriceChanges(repository, { source: 'vauto-sync', actor: VAUTO_ACTOR, changes: diffPrices(before, after) });
+  }
+
+  return report;
+}
+
+/**
+ * Human-readable summary of an import run
+ */
+export function formatImportReport(report: ImportReport): string {
+  const lines = [
+    `${report.dryRun ? 'Preview of the vAuto feed import (nothing was written)' : 'vAuto feed imported'}:`,
+    '',
+    `Rows in feed: ${report.totalRows}`,
+    `Added: ${report.added}`,
+    `Updated: ${report.updated}${report.restored > 0 ? ` (${report.restored} restored from the trash)` : ''}`,
+    `Unchanged: ${report.unchanged}`,
+    `Removed: ${report.removed}`,
+    `Skipped: ${report.skipped}`,
+    `Suppressed: ${report.suppressed}`,
+  ];
+
+  if (report.lockedFields.length > 0) {
+    lines.push('', `Locked fields kept (${report.lockedFields.length} vehicles):`);
+    for (const { vin, fields } of report.lockedFields) {
+      lines.push(`- VIN ${vin}: ${fields.join(', ')}`);
+    }
+  }
+
+  if (report.unmappedColumns.length > 0) {
+    lines.push('', `Ignored columns: ${report.unmappedColumns.join(', ')}`);
+  }
+
+  if (report.errors.length > 0) {
+    lines.push('', `Errors (${report.errors.length}):`);
+    for (const error of report.errors) {
+      lines.push(`- ${error.row > 0 ? `Row ${error.row}` : 'Feed'}${error.vin ? ` (VIN ${error.vin})` : ''}: ${error.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatCsv } from "./vehicle-export";
+
+test('formatCsv writes formula-like text as plain text', () => {
+  const csv = formatCsv([
+    { notes: '=HYPERLINK("http://evil.example","x")', tags: '+1', model: '@SUM(A1)', colour: '-red', odometer: -5 },
+  ], ['notes', 'tags', 'model', 'colour', 'odometer']);
+
+  const [, line] = csv.replace('\uFEFF', '').split('\r\n');
+  assert.equal(line, `"'=HYPERLINK(""http://evil.example"",""x"")",'+1,'@SUM(A1),'-red,-5`);
+});
+
+test('formatCsv leaves ordinary text unchanged', () => {
+  const csv = formatCsv([{ make: 'Porsche', model: '911, Carrera' }], ['make', 'model']);
+  assert.equal(csv, '\uFEFFmake,model\r\nPorsche,"911, Carrera"\r\n');
+});
@@ -0,0 +1,104 @@
+import ExcelJS from 'exceljs';
+import { vehicleSchema } from "./vehicle";
+import type { VehicleRow } from "./repository";
+
+/**
+ * Inventory exports for spreadsheets: the selected columns of each vehicle
+ * as CSV, XLSX or JSON.
+ */
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+// Export files are stored under exports/{uuid}/
+export const EXPORT_KEY_PREFIX = 'exports/';
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_COLUMNS = Object.keys(vehicleSchema.shape) as [string, ...string[]];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'stock_number', 'vin', 'year', 'make', 'model', 'series', 'colour', 'odometer',
+  'new_used', 'price', 'custom_price', 'inventory_date', 'age',
+];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+export type ExportFile = {
+  body: Buffer;
+  contentType: string;
+  extension: ExportFormat;
+};
+
+/**
+ * Cell value for CSV and XLSX: lists are joined, objects written as JSON
+ */
+function cellValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) {
+    return value.map(item => item !== null && typeof item === 'object' ? JSON.stringify(item) : String(item)).join('; ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+}
+
+// Leading characters that make spreadsheets read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * CSV field, quoted when needed. Text that would be read as a formula is
+ * prefixed with an apostrophe so it is shown as text; numbers are kept as is.
+ */
+function csvField(value: unknown): string {
+  const cell = cellValue(value);
+  if (cell === null) return '';
+  const text = typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a byte order mark, so Excel reads it as UTF-8
+ */
+export function formatCsv(rows: VehicleRow[], columns: string[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => csvField(row[column])).join(','));
+  }
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+async function formatXlsx(rows: VehicleRow[], columns: string[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Vehicles', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = columns.map(column => ({ header: column, key: column, width: Math.max(12, column.length + 2) }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+
+  for (const row of rows) {
+    sheet.addRow(Object.fromEntries(columns.map(column => [column, cellValue(row[column])])));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Build the export file with `columns` of each row, in the given order
+ */
+export async function buildExportFile(rows: VehicleRow[], columns: string[], format: ExportFormat): Promise<ExportFile> {
+  let body: Buffer;
+
+  if (format === 'xlsx') {
+    body = await formatXlsx(rows, columns);
+  } else if (format === 'json') {
+    const picked = rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+    body = Buffer.from(JSON.stringify(picked, null, 2), 'utf8');
+  } else {
+    body = Buffer.from(formatCsv(rows, columns), 'utf8');
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], extension: format };
+}
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { type InferSchema } from "xmcp";
+import { createMemoryRepository, setRepository } from "./repository";
+import { hasFilters } from "./vehicle-filters";
+import updateVehicles, { schema as updateVehiclesSchema } from "../tools/update-vehicles";
+import removeTags, { schema as removeTagsSchema } from "../tools/remove-tags";
+
+test('hasFilters ignores blank text, empty tag lists and a zero year', () => {
+  assert.equal(hasFilters({}), false);
+  assert.equal(hasFilters({ make: '', model: '  ', anyTags: [], allTags: [' '], year: 0 }), false);
+  assert.equal(hasFilters({ make: 'Ferrari' }), true);
+  assert.equal(hasFilters({ anyTags: ['featured'] }), true);
+  assert.equal(hasFilters({ maxAge: 0 }), true);
+  assert.equal(hasFilters({ hasPrice: false }), true);
+});
+
+test('bulk tools refuse blank filters instead of selecting the whole inventory', async () => {
+  setRepository(createMemoryRepository({
+    vehicles: [{ id: 1, vin: 'ZFF79ALA0J0229876', stock_number: 'F1001', make: 'Ferrari', price: 250000, tags: 'featured' }],
+  }));
+
+  const update = await updateVehicles(z.object(updateVehiclesSchema).parse({ make: ' ', anyTags: [], price: 1 }) as InferSchema<typeof updateVehiclesSchema>);
+  const remove = await removeTags(z.object(removeTagsSchema).parse({ model: '', tags: ['featured'] }) as InferSchema<typeof removeTagsSchema>);
+
+  for (const result of [update, remove]) {
+    assert.ok('isError' in result);
+    assert.equal(result.structuredContent.error.code, 'INVALID_INPUT');
+  }
+});
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { AI_VIDEO_STATUSES, aiVideoStatus } from "./ai-video";
+import { normalizeTag, parseTags } from "./vehicle-tags";
+
+/**
+ * Vehicle filters shared by every tool that selects a set of vehicles
+ * (get-vehicles, inventory-stats, ...). Text filters are case-insensitive
+ * partial matches; tag filters compare normalised tag names.
+ */
+export const vehicleFilterSchema = {
+  // Basic filters
+  make: z.string().optional().describe("Filter by vehicle make/brand (e.g., 'Ferrari', 'Porsche')"),
+  model: z.string().optional().describe("Filter by vehicle model (e.g., '911', 'F8')"),
+  year: z.number().optional().describe("Filter by specific year"),
+  minYear: z.number().optional().describe("Filter by minimum year"),
+  maxYear: z.number().optional().describe("Filter by maximum year"),
+
+  // Price filters
+  minPrice: z.number().optional().describe("Filter by minimum price"),
+  maxPrice: z.number().optional().describe("Filter by maximum price"),
+  hasPrice: z.boolean().optional().describe("Filter vehicles that have a price (true) or don't have a price (false/null)"),
+
+  // Color filters
+  colour: z.string().optional().describe("Filter by exterior color"),
+  interiorColor: z.string().optional().describe("Filter by interior color"),
+
+  // Condition & Type
+  newUsed: z.string().optional().describe("Filter by condition: 'New' or 'Used'"),
+  certified: z.string().optional().describe("Filter by certified status"),
+
+  // Mechanical specs
+  transmission: z.string().optional().describe("Filter by transmission type"),
+  drivetrain: z.string().optional().describe("Filter by drivetrain description"),
+  fuel: z.string().optional().describe("Filter by fuel type"),
+
+  // Mileage
+  maxOdometer: z.number().optional().describe("Filter by maximum odometer/mileage"),
+
+  // Days in inventory
+  minAge: z.number().optional().describe("Filter by minimum days in inventory (age)"),
+  maxAge: z.number().optional().describe("Filter by maximum days in inventory (age)"),
+
+  // Other
+  body: z.string().optional().describe("Filter by body type (e.g., 'Coupe', 'Sedan')"),
+  dealerName: z.string().optional().describe("Filter by dealer name"),
+  aiVideoStatus: z.enum(AI_VIDEO_STATUSES).optional().describe("Filter by AI video: 'has_video', 'missing' or 'queued' (regeneration requested)"),
+
+  // Tags
+  anyTags: z.array(z.string()).optional().describe("Only vehicles with at least one of these tags (e.g. ['featured', 'track'])"),
+  allTags: z.array(z.string()).optional().describe("Only vehicles with every one of these tags"),
+};
+
+export type VehicleFilters = {
+  [K in keyof typeof vehicleFilterSchema]?: z.infer<typeof vehicleFilterSchema[K]>;
+};
+
+// Filters applied only when truthy, so 0 selects every vehicle
+const TRUTHY_FILTERS = ['year', 'minYear', 'maxYear'];
+
+/**
+ * Whether any filter narrows the selection. Blank text, empty tag lists and
+ * other values the filters ignore do not count, so bulk tools can refuse to
+ * act on the whole inventory.
+ */
+export function hasFilters(filters: VehicleFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value.trim() !== '';
+    if (Array.isArray(value)) return normalizeTags(value).length > 0;
+    return !TRUTHY_FILTERS.includes(key) || Boolean(value);
+  });
+}
+
+/**
+ * Apply the filters to a Supabase query on the `vehicles` table
+ */
+export function applyVehicleFilters<T>(query: T, filters: VehicleFilters): T {
+  let q: any = query;
+
+  if (filters.make) {
+    q = q.ilike('make', `%${filters.make}%`);
+  }
+
+  if (filters.model) {
+    q = q.ilike('model', `%${filters.model}%`);
+  }
+
+  if (filters.year) {
+    q = q.eq('year', filters.year);
+  }
+
+  if (filters.minYear) {
+    q = q.gte('year', filters.minYear);
+  }
+
+  if (filters.maxYear) {
+    q = q.lte('year', filters.maxYear);
+  }
+
+  if (filters.minPrice !== undefined) {
+    q = q.gte('price', filters.minPrice);
+  }
+
+  if (filters.maxPrice !== undefined) {
+    q = q.lte('price', filters.maxPrice);
+  }
+
+  if (filters.hasPrice !== undefined) {
+    if (filters.hasPrice) {
+      q = q.not('price', 'is', null);
+    } else {
+      q = q.is('price', null);
+    }
+  }
+
+  if (filters.colour) {
+    q = q.ilike('colour', `%${filters.colour}%`);
+  }
+
+  if (filters.interiorColor) {
+    q = q.ilike('interior_color', `%${filters.interiorColor}%`);
+  }
+
+  if (filters.newUsed) {
+    q = q.ilike('new_used', `%${filters.newUsed}%`);
+  }
+
+  if (filters.certified) {
+    q = q.ilike('certified', `%${filters.certified}%`);
+  }
+
+  if (filters.transmission) {
+    q = q.ilike('transmission', `%${filters.transmission}%`);
+  }
+
+  if (filters.drivetrain) {
+    q = q.ilike('drivetrain_desc', `%${filters.drivetrain}%`);
+  }
+
+  if (filters.fuel) {
+    q = q.ilike('fuel', `%${filters.fuel}%`);
+  }
+
+  if (filters.maxOdometer !== undefined) {
+    q = q.lte('odometer', filters.maxOdometer);
+  }
+
+  if (filters.minAge !== undefined) {
+    q = q.gte('age', filters.minAge);
+  }
+
+  if (filters.maxAge !== undefined) {
+    q = q.lte('age', filters.maxAge);
+  }
+
+  if (filters.body) {
+    q = q.ilike('body', `%${filters.body}%`);
+  }
+
+  if (filters.dealerName) {
+    q = q.ilike('dealer_name', `%${filters.dealerName}%`);
+  }
+
+  if (filters.aiVideoStatus === 'queued') {
+    q = q.not('ai_video_queued_at', 'is', null);
+  } else if (filters.aiVideoStatus) {
+    q = q.is('ai_video_queued_at', null);
+    q = filters.aiVideoStatus === 'has_video' ? q.not('ai_video', 'is', null) : q.is('ai_video', null);
+  }
+
+  const anyTags = normalizeTags(filters.anyTags);
+  if (anyTags.length > 0) {
+    q = q.overlaps('tag_list', anyTags);
+  }
+
+  const allTags = normalizeTags(filters.allTags);
+  if (allTags.length > 0) {
+    q = q.contains('tag_list', allTags);
+  }
+
+  return q;
+}
+
+function normalizeTags(tags: string[] | undefined): string[] {
+  return (tags || []).map(normalizeTag).filter(tag => tag !== '');
+}
+
+function includesIgnoreCase(value: unknown, search: string): boolean {
+  return typeof value === 'string' && value.toLowerCase().includes(search.toLowerCase());
+}
+
+function isAtLeast(value: unknown, min: number): boolean {
+  return typeof value === 'number' && value >= min;
+}
+
+function isAtMost(value: unknown, max: number): boolean {
+  return typeof value === 'number' && value <= max;
+}
+
+/**
+ * In-memory counterpart of `applyVehicleFilters`: whether a vehicle row matches
+ * the filters. Keep the two in sync.
+ */
+export function matchesVehicleFilters(row: Record<string, any>, filters: VehicleFilters): boolean {
+  const textFilters: [string | undefined, string][] = [
+    [filters.make, 'make'],
+    [filters.model, 'model'],
+    [filters.colour, 'colour'],
+    [filters.interiorColor, 'interior_color'],
+    [filters.newUsed, 'new_used'],
+    [filters.certified, 'certified'],
+    [filters.transmission, 'transmission'],
+    [filters.drivetrain, 'drivetrain_desc'],
+    [filters.fuel, 'fuel'],
+    [filters.body, 'body'],
+    [filters.dealerName, 'dealer_name'],
+  ];
+
+  for (const [search, column] of textFilters) {
+    if (search && !includesIgnoreCase(row[column], search)) return false;
+  }
+
+  if (filters.year && row.year !== filters.year) return false;
+  if (filters.minYear && !isAtLeast(row.year, filters.minYear)) return false;
+  if (filters.maxYear && !isAtMost(row.year, filters.maxYear)) return false;
+
+  if (filters.minPrice !== undefined && !isAtLeast(row.price, filters.minPrice)) return false;
+  if (filters.maxPrice !== undefined && !isAtMost(row.price, filters.maxPrice)) return false;
+  if (filters.hasPrice !== undefined && (row.price !== null && row.price !== undefined) !== filters.hasPrice) return false;
+
+  if (filters.maxOdometer !== undefined && !isAtMost(row.odometer, filters.maxOdometer)) return false;
+  if (filters.minAge !== undefined && !isAtLeast(row.age, filters.minAge)) return false;
+  if (filters.maxAge !== undefined && !isAtMost(row.age, filters.maxAge)) return false;
+
+  if (filters.aiVideoStatus && aiVideoStatus(row) !== filters.aiVideoStatus) return false;
+
+  const anyTags = normalizeTags(filters.anyTags);
+  const allTags = normalizeTags(filters.allTags);
+  if (anyTags.length > 0 || allTags.length > 0) {
+    const tags = parseTags(row.tags);
+    if (anyTags.length > 0 && !anyTags.some(tag => tags.includes(tag))) return false;
+    if (!allTags.every(tag => tags.includes(tag))) return false;
+  }
+
+  return true;
+}
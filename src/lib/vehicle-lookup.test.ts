@@ -0,0 +1,64 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { type InferSchema } from "xmcp";
+import { createMemoryRepository, setRepository, type VehicleRepository } from "./repository";
+import { validateIdentifier, findVehicle } from "./vehicle-lookup";
+import updateVehicles, { schema as updateVehiclesSchema } from "../tools/update-vehicles";
+import addTags, { schema as addTagsSchema } from "../tools/add-tags";
+
+let repository: VehicleRepository;
+
+beforeEach(() => {
+  repository = createMemoryRepository({
+    vehicles: [
+      { id: 1, vin: 'ZFF79ALA0J0229876', stock_number: 'F1001', year: 2018, make: 'Ferrari', model: '488', price: 250000 },
+      { id: 2, vin: 'WP0AB2A99LS123456', stock_number: 'P2002', year: 2019, make: 'Porsche', model: '911', price: 120000 },
+    ],
+  });
+  setRepository(repository);
+});
+
+// Tool arguments are validated against the tool's schema, as xmcp does
+const updateArgs = (args: Record<string, unknown>) => z.object(updateVehiclesSchema).parse(args) as InferSchema<typeof updateVehiclesSchema>;
+const addTagsArgs = (args: Record<string, unknown>) => z.object(addTagsSchema).parse(args) as InferSchema<typeof addTagsSchema>;
+
+async function prices(): Promise<unknown[]> {
+  const { data } = await repository.findVehicles({ columns: ['price'], orderBy: [{ column: 'id', ascending: true }] });
+  return (data || []).map(row => row.price);
+}
+
+test('validateIdentifier rejects identifiers that are blank after normalising', () => {
+  for (const identifier of [{ vin: '-' }, { vin: '  ' }, { stockNumber: '  ' }, { stockNumber: '' }]) {
+    assert.equal(validateIdentifier(identifier)?.structuredContent.error.code, 'INVALID_INPUT', JSON.stringify(identifier));
+  }
+  assert.equal(validateIdentifier({ stockNumber: ' F1001 ' }), null);
+});
+
+test('findVehicle does not match every vehicle for a blank identifier', async () => {
+  const found = await findVehicle(repository, { vin: '-' });
+  assert.equal(found.error?.structuredContent.error.code, 'INVALID_INPUT');
+});
+
+test('update-vehicles with a blank stock number does not update all vehicles', async () => {
+  const result = await updateVehicles(updateArgs({ stockNumber: '  ', price: 1 }));
+  assert.equal('isError' in result && result.isError, true);
+  assert.deepEqual(await prices(), [250000, 120000]);
+});
+
+test('update-vehicles with a blank identifier and filters is not a bulk update', async () => {
+  const result = await updateVehicles(updateArgs({ vin: '-', make: 'Ferrari', price: 1 }));
+  assert.equal('isError' in result && result.structuredContent.error.code, 'INVALID_INPUT');
+  assert.deepEqual(await prices(), [250000, 120000]);
+});
+
+test('update-vehicles by stock number updates that vehicle only', async () => {
+  const result = await updateVehicles(updateArgs({ stockNumber: ' F1001 ', price: 240000 }));
+  assert.equal('isError' in result, false);
+  assert.deepEqual(await prices(), [240000, 120000]);
+});
+
+test('add-tags with a blank VIN is rejected', async () => {
+  const result = await addTags(addTagsArgs({ vin: '  ', tags: ['featured'] }));
+  assert.equal('isError' in result && result.structuredContent.error.code, 'INVALID_INPUT');
+});
@@ -0,0 +1,200 @@
+import { toolError, type ToolErrorResult } from "./tool-result";
+import { findAllVehicles, type VehicleRepository, type VehicleQuery, type VehicleRow } from "./repository";
+import { toVehicleSummary, type VehicleSummary } from "./vehicle";
+import { normalizeVin, checkVin, describeVinProblems, editDistance } from "./vin";
+
+export type VehicleIdentifier = {
+  id?: number;
+  vin?: string;
+  stockNumber?: string;
+};
+
+export type VehicleSuggestion = VehicleSummary & { matchedOn: 'vin' | 'stock_number' };
+
+const MAX_SUGGESTIONS = 5;
+// Typos tolerated when suggesting VINs and stock numbers
+const MAX_VIN_DISTANCE = 2;
+const MAX_STOCK_NUMBER_DISTANCE = 1;
+// Shortest tail of a VIN (e.g. the last 6 or 8 characters) matched as a partial VIN
+const MIN_PARTIAL_VIN_LENGTH = 6;
+
+/**
+ * Identifier with the VIN normalised (see normalizeVin) and the stock number trimmed
+ */
+export function normalizeIdentifier({ id, vin, stockNumber }: VehicleIdentifier): VehicleIdentifier {
+  return {
+    id,
+    vin: vin ? normalizeVin(vin) ?? undefined : undefined,
+    stockNumber: stockNumber ? stockNumber.trim() || undefined : undefined,
+  };
+}
+
+/**
+ * Human-readable form of the identifier, e.g. "VIN: WP0AB2A9..."
+ */
+export function describeIdentifier({ id, vin, stockNumber }: VehicleIdentifier): string {
+  return id ? `ID: ${id}` : vin ? `VIN: ${normalizeVin(vin)}` : `Stock Number: ${stockNumber}`;
+}
+
+/**
+ * Whether any of id, vin and stockNumber was passed, even a blank one
+ */
+export function hasIdentifier({ id, vin, stockNumber }: VehicleIdentifier): boolean {
+  return [id, vin, stockNumber].some(value => value !== undefined && value !== null);
+}
+
+/**
+ * Error when not exactly one of id, vin and stockNumber is provided, or when
+ * the one provided is empty after normalising (e.g. "  " or "-"), which would
+ * otherwise match every vehicle
+ */
+export function validateIdentifier(identifier: VehicleIdentifier): ToolErrorResult | null {
+  const { id, vin, stockNumber } = identifier;
+  const identifierCount = [id, vin, stockNumber].filter(value => value !== undefined && value !== null).length;
+  if (identifierCount === 0) {
+    return toolError('INVALID_INPUT', `Please provide one identifier ('id', 'vin', or 'stockNumber') to identify the vehicle.`);
+  }
+
+  if (identifierCount > 1) {
+    return toolError('INVALID_INPUT', `Please provide only one identifier ('id', 'vin', OR 'stockNumber'), not multiple.`);
+  }
+
+  const normalized = normalizeIdentifier(identifier);
+  if (!normalized.id && !normalized.vin && !normalized.stockNumber) {
+    const name = id !== undefined && id !== null ? 'id' : vin !== undefined && vin !== null ? 'vin' : 'stockNumber';
+    return toolError('INVALID_INPUT', `The '${name}' provided is empty or invalid. Please provide a valid identifier to identify the vehicle.`);
+  }
+
+  return null;
+}
+
+/**
+ * Find the single vehicle matching the identifier, or the tool error to return
+ * when there is none or more than one
+ */
+export async function findVehicle(
+  repository: VehicleRepository,
+  identifier: VehicleIdentifier,
+  {
+    columns,
+    deleted,
+    notFoundMessage,
+    ambiguousMessage = `Multiple vehicles found with the same identifier. This shouldn't happen. Please contact support.`,
+  }: {
+    columns?: string[];
+    deleted?: VehicleQuery['deleted'];
+    notFoundMessage?: string;
+    ambiguousMessage?: string;
+  } = {}
+): Promise<{ vehicle: VehicleRow; error?: undefined } | { vehicle?: undefined; error: ToolErrorResult }> {
+  const identifierError = validateIdentifier(identifier);
+  if (identifierError) {
+    return { error: identifierError };
+  }
+
+  const { id, vin, stockNumber } = normalizeIdentifier(identifier);
+
+  const { data: vehicles, error } = await repository.findVehicles({
+    ...(id ? { id } : vin ? { vin } : { stockNumber }),
+    deleted,
+    columns,
+  });
+
+  if (error) {
+    return { error: toolError('DATABASE_ERROR', `Error finding vehicle: ${error.message}`) };
+  }
+
+  if (vehicles.length === 0) {
+    return { error: await vehicleNotFoundError(repository, identifier, { deleted, message: notFoundMessage }) };
+  }
+
+  if (vehicles.length > 1) {
+    return {
+      error: toolError('AMBIGUOUS_IDENTIFIER', ambiguousMessage, {
+        vehicleIds: vehicles.map(v => v.id),
+      }),
+    };
+  }
+
+  return { vehicle: vehicles[0] };
+}
+
+/**
+ * Error for an identifier without a matching vehicle. An invalid VIN is
+ * reported as such, and vehicles with a similar VIN or stock number are
+ * suggested.
+ */
+export async function vehicleNotFoundError(
+  repository: VehicleRepository,
+  identifier: VehicleIdentifier,
+  { deleted, message }: { deleted?: VehicleQuery['deleted']; message?: string } = {}
+): Promise<ToolErrorResult> {
+  const { vin } = normalizeIdentifier(identifier);
+  const notFound = message || `No vehicle found with ${describeIdentifier(identifier)}.`;
+  const vinCheck = vin ? checkVin(vin) : null;
+  const suggestions = await findSimilarVehicles(repository, identifier, { deleted });
+
+  const suggestionList = suggestions.length > 0
+    ? `\n\nDid you mean:\n${suggestions.map(v =>
+      `- ${[v.year, v.make, v.model].filter(Boolean).join(' ')} (ID: ${v.id}, VIN: ${v.vin || 'N/A'}, Stock Number: ${v.stock_number || 'N/A'})`
+    ).join('\n')}`
+    : '';
+
+  if (vinCheck && !vinCheck.valid) {
+    return toolError('INVALID_INPUT', `${describeVinProblems(vinCheck)} ${notFound}${suggestionList}`, { vinCheck, suggestions });
+  }
+
+  return toolError('NOT_FOUND', `${notFound}${suggestionList}`, { suggestions });
+}
+
+/**
+ * Vehicles whose VIN or stock number is close to the identifier: a few typos
+ * or swapped characters away, the tail of a VIN, or a stock number given as
+ * VIN and vice versa. Best match first; empty when the lookup fails.
+ */
+export async function findSimilarVehicles(
+  repository: VehicleRepository,
+  identifier: VehicleIdentifier,
+  { deleted }: { deleted?: VehicleQuery['deleted'] } = {}
+): Promise<VehicleSuggestion[]> {
+  const { vin, stockNumber } = normalizeIdentifier(identifier);
+  if (!vin && !stockNumber) return [];
+
+  const { data: vehicles, error } = await findAllVehicles(repository, {
+    deleted,
+    columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number'],
+  });
+
+  if (error) return [];
+
+  const vinValue = vin ?? normalizeVin(stockNumber);
+  const stockValue = (stockNumber ?? identifier.vin!.trim()).toUpperCase();
+  const matches: { vehicle: VehicleRow; matchedOn: VehicleSuggestion['matchedOn']; distance: number }[] = [];
+
+  for (const vehicle of vehicles) {
+    const candidateVin = normalizeVin(vehicle.vin);
+    const candidateStock = vehicle.stock_number ? String(vehicle.stock_number).trim().toUpperCase() : null;
+
+    if (candidateVin && vinValue) {
+      const distance = vinValue.length >= MIN_PARTIAL_VIN_LENGTH && vinValue.length < candidateVin.length && candidateVin.endsWith(vinValue)
+        ? 0
+        : editDistance(vinValue, candidateVin);
+      if (distance <= MAX_VIN_DISTANCE) {
+        matches.push({ vehicle, matchedOn: 'vin', distance });
+        continue;
+      }
+    }
+
+    if (candidateStock) {
+      const distance = editDistance(stockValue, candidateStock);
+      if (distance === 0 || (distance <= MAX_STOCK_NUMBER_DISTANCE && stockValue.length > 3)) {
+        matches.push({ vehicle, matchedOn: 'stock_number', distance });
+      }
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.distance - b.distance || a.vehicle.id - b.vehicle.id)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ vehicle, matchedOn }) => ({ ...toVehicleSummary(vehicle), matchedOn }));
+}
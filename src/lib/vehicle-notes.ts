@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { getActor, getCallerRole } from "./auth";
+import type { AuditChanges } from "./audit";
+import type { VehicleRepository } from "./repository";
+
+/**
+ * Notes on a vehicle as a history of entries, each with its author, time and
+ * an optional category. `vehicles.notes` keeps the text of all entries, oldest
+ * first, so search-vehicles, exports and prompts still see every note.
+ */
+
+export const NOTES_TABLE = 'vehicle_notes';
+
+export const NOTE_CATEGORIES = ['pricing', 'condition', 'customer'] as const;
+
+export type NoteCategory = typeof NOTE_CATEGORIES[number];
+
+// Author of the entries created from the old notes column (see the vehicle_notes migration)
+export const MIGRATED_NOTE_AUTHOR = 'notes-migration';
+
+export const MAX_NOTE_LENGTH = 5000;
+
+export const vehicleNoteSchema = z.object({
+  id: z.number(),
+  vehicle_id: z.number(),
+  body: z.string(),
+  category: z.enum(NOTE_CATEGORIES).nullable(),
+  author: z.string().describe("API key name of the caller who wrote the note"),
+  created_at: z.string(),
+  updated_at: z.string().nullable().describe("Last edit, null if never edited"),
+  updated_by: z.string().nullable(),
+});
+
+export type VehicleNote = z.infer<typeof vehicleNoteSchema>;
+
+/**
+ * Trimmed note text, or an error message when it is empty or too long
+ */
+export function normalizeNoteBody(body: string): { body: string } | { error: string } {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return { error: `The note is empty. Use delete-note to remove a note.` };
+  }
+  if (trimmed.length > MAX_NOTE_LENGTH) {
+    return { error: `The note is ${trimmed.length} characters long; the maximum is ${MAX_NOTE_LENGTH}.` };
+  }
+  return { body: trimmed };
+}
+
+/**
+ * Only the author of a note or an admin may edit or delete it
+ */
+export function canChangeNote(note: VehicleNote): boolean {
+  return note.author === getActor() || getCallerRole() === 'admin';
+}
+
+/**
+ * Text stored in `vehicles.notes`: the bodies of all entries, oldest first
+ */
+export function notesDigest(notes: VehicleNote[]): string | null {
+  if (notes.length === 0) return null;
+  return [...notes]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+    .map(note => note.body)
+    .join('\n\n');
+}
+
+/**
+ * Rewrite `vehicles.notes` from the vehicle's entries after a change.
+ * Failures are logged and returned, never thrown: the note is already saved.
+ */
+export async function syncNotesDigest(
+  repository: VehicleRepository,
+  vehicleId: number
+): Promise<{ success: boolean; error?: string }> {
+  const { data: notes, error } = await repository.findNotes({ vehicleIds: [vehicleId] });
+
+  if (error) {
+    console.error(`Failed to read the notes of vehicle ${vehicleId}: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+
+  const { error: updateError } = await repository.updateVehicles([vehicleId], {
+    notes: notesDigest(notes),
+    updated_at: new Date().toISOString(),
+  }, { columns: ['id'] });
+
+  if (updateError) {
+    console.error(`Failed to update the notes of vehicle ${vehicleId}: ${updateError.message}`);
+    return { success: false, error: updateError.message };
+  }
+
+  return { success: true };
+}
+
+export function notesDigestWarning(result: { success: boolean; error?: string }): string {
+  return result.success ? '' : `\n\n⚠️  Warning: The note was saved but the vehicle's notes text used by search-vehicles could not be updated: ${result.error}`;
+}
+
+/**
+ * Audit log changes of one note, under the key `note:<id>`
+ */
+export function noteAuditChanges(before: VehicleNote | null, after: VehicleNote | null): AuditChanges {
+  const note = (after || before)!;
+  const fields = (value: VehicleNote | null) => value && { body: value.body, category: value.category };
+  return { [note.vehicle_id]: { [`note:${note.id}`]: { before: fields(before), after: fields(after) } } };
+}
+
+/**
+ * One line per note for the text of a tool result
+ */
+export function formatNote(note: VehicleNote): string {
+  const edited = note.updated_at
+    ? ` (edited ${new Date(note.updated_at).toLocaleString()} by ${note.updated_by || 'unknown'})`
+    : '';
+  return `#${note.id} [${new Date(note.created_at).toLocaleString()}]` +
+    `${note.category ? ` ${note.category}` : ''} by ${note.author}${edited}:\n   ${note.body.replace(/\n/g, '\n   ')}`;
+}
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { vehicleSummarySchema, toVehicleSummary } from "./vehicle";
+import { diffColumns, recordAudit, type AuditChanges } from "./audit";
+import type { VehicleRepository, VehicleRow } from "./repository";
+
+/**
+ * Vehicle tags. `tags` stays a text column, a comma-separated list of tag
+ * names, normalised by the tools: lowercase, single spaces, no duplicates,
+ * in the order they were added. The `tag_list` column (see the vehicle_tags
+ * migration) holds the same names as an array for the tag filters.
+ */
+
+export const MAX_TAG_LENGTH = 40;
+
+// Separators accepted when reading a tag list; tags are written with ', '
+export const TAG_SEPARATORS = /[,;]/;
+
+export const TAG_COLUMNS = ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'tags'];
+
+export function normalizeTag(tag: string): string {
+  return tag.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalised tag names of a `tags` value, without duplicates
+ */
+export function parseTags(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  const tags = value.split(TAG_SEPARATORS).map(normalizeTag).filter(tag => tag !== '');
+  return [...new Set(tags)];
+}
+
+/**
+ * Value of the `tags` column for a list of normalised names
+ */
+export function formatTags(tags: string[]): string | null {
+  return tags.length > 0 ? tags.join(', ') : null;
+}
+
+/**
+ * Normalise tag names given to a tool. Returns an error message for empty or
+ * overlong names, or names containing a separator.
+ */
+export function validateTags(input: string[]): { tags: string[] } | { error: string } {
+  const tags: string[] = [];
+
+  for (const raw of input) {
+    const tag = normalizeTag(raw);
+    if (!tag) {
+      return { error: `Tag names cannot be empty.` };
+    }
+    if (TAG_SEPARATORS.test(tag)) {
+      return { error: `Tag "${raw}" contains a comma or semicolon. Pass each tag as a separate item.` };
+    }
+    if (tag.length > MAX_TAG_LENGTH) {
+      return { error: `Tag "${raw}" is longer than ${MAX_TAG_LENGTH} characters.` };
+    }
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+
+  return { tags };
+}
+
+/**
+ * Validate a comma-separated tag list, e.g. the `tags` of update-vehicles.
+ * Empty items are ignored, so "featured, " is the single tag "featured".
+ */
+export function validateTagList(value: string): { tags: string[] } | { error: string } {
+  return validateTags(value.split(TAG_SEPARATORS).filter(tag => tag.trim() !== ''));
+}
+
+export const tagChangeSchema = z.object({
+  vehicle: vehicleSummarySchema,
+  before: z.array(z.string()),
+  after: z.array(z.string()),
+});
+
+export type TagChange = z.infer<typeof tagChangeSchema>;
+
+/**
+ * New tags of each vehicle after adding and removing the given names.
+ * Vehicles whose tags would not change are left out.
+ */
+export function planTagChanges(
+  rows: VehicleRow[],
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] }
+): TagChange[] {
+  const changes: TagChange[] = [];
+
+  for (const row of rows) {
+    const before = parseTags(row.tags);
+    const after = [...before.filter(tag => !remove.includes(tag)), ...add.filter(tag => !before.includes(tag))];
+
+    // A raw value that only needs normalising counts as a change too
+    if (formatTags(after) !== (row.tags ?? null)) {
+      changes.push({ vehicle: toVehicleSummary(row), before, after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Write the planned tags, one statement per distinct tag list, and record the
+ * before/after values in the audit log under `tool`
+ */
+export async function applyTagChanges(
+  repository: VehicleRepository,
+  rows: VehicleRow[],
+  changes: TagChange[],
+  tool: string
+): Promise<{ error: string | null; updatedIds: number[]; audit: { success: boolean; error?: string } }> {
+  const updatedAt = new Date().toISOString();
+  const batches = new Map<string | null, number[]>();
+
+  for (const change of changes) {
+    const tags = formatTags(change.after);
+    batches.set(tags, [...(batches.get(tags) || []), change.vehicle.id]);
+  }
+
+  const updated: VehicleRow[] = [];
+  let error: string | null = null;
+
+  for (const [tags, ids] of batches) {
+    const { data, error: updateError } = await repository.updateVehicles(ids, { tags, updated_at: updatedAt }, { columns: ['id', 'tags'] });
+    if (updateError) {
+      error = updateError.message;
+      break;
+    }
+    updated.push(...data);
+  }
+
+  const auditChanges: AuditChanges = {};
+  for (const after of updated) {
+    const before = rows.find(row => row.id === after.id);
+    if (before) auditChanges[after.id] = diffColumns(before, after, ['tags']);
+  }
+  const audit = await recordAudit(repository, { tool, changes: auditChanges });
+
+  return { error, updatedIds: updated.map(row => row.id), audit };
+}
+
+export function formatTagList(tags: string[]): string {
+  return tags.length > 0 ? tags.join(', ') : '(none)';
+}
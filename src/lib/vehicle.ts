@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+/**
+ * Shape of a row in the `vehicles` table as synced from vAuto.
+ * Unknown columns are passed through untouched.
+ */
+export const vehicleSchema = z.object({
+  id: z.number(),
+  vin: z.string().nullable().optional(),
+  stock_number: z.string().nullable().optional(),
+  year: z.number().nullable().optional(),
+  make: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  series: z.string().nullable().optional(),
+  series_detail: z.string().nullable().optional(),
+  model_code: z.string().nullable().optional(),
+  slug: z.string().nullable().optional(),
+
+  price: z.number().nullable().optional(),
+  custom_price: z.number().nullable().optional(),
+  msrp: z.number().nullable().optional(),
+
+  colour: z.string().nullable().optional(),
+  interior_color: z.string().nullable().optional(),
+  body: z.string().nullable().optional(),
+  door_count: z.number().nullable().optional(),
+
+  new_used: z.string().nullable().optional(),
+  certified: z.string().nullable().optional(),
+  age: z.number().nullable().optional(),
+  odometer: z.number().nullable().optional(),
+  inventory_date: z.string().nullable().optional(),
+
+  transmission: z.string().nullable().optional(),
+  drivetrain_desc: z.string().nullable().optional(),
+  fuel: z.string().nullable().optional(),
+  engine: z.string().nullable().optional(),
+  engine_cylinder_count: z.number().nullable().optional(),
+  engine_displacement: z.union([z.string(), z.number()]).nullable().optional(),
+  city_mpg: z.number().nullable().optional(),
+  highway_mpg: z.number().nullable().optional(),
+
+  description: z.string().nullable().optional(),
+  ai_description: z.string().nullable().optional(),
+
+  dealer_name: z.string().nullable().optional(),
+  dealer_id: z.union([z.string(), z.number()]).nullable().optional(),
+
+  photo_count: z.number().nullable().optional(),
+  photos_last_modified_date: z.string().nullable().optional(),
+  photos: z.array(z.unknown()).nullable().optional(),
+  images_hd: z.array(z.unknown()).nullable().optional(),
+  sticker_url: z.string().nullable().optional(),
+  ai_video: z.string().nullable().optional(),
+  ai_video_queued_at: z.string().nullable().optional(),
+
+  features: z.array(z.unknown()).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  tags: z.string().nullable().optional(),
+  locked_fields: z.array(z.string()).nullable().optional(),
+
+  created_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+  deleted_at: z.string().nullable().optional(),
+}).passthrough();
+
+export type Vehicle = z.infer<typeof vehicleSchema>;
+
+/**
+ * Minimal identification of a vehicle, used in results of write tools
+ */
+export const vehicleSummarySchema = z.object({
+  id: z.number(),
+  year: z.number().nullable().optional(),
+  make: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  vin: z.string().nullable().optional(),
+  stock_number: z.string().nullable().optional(),
+});
+
+export type VehicleSummary = z.infer<typeof vehicleSummarySchema>;
+
+export function toVehicleSummary(vehicle: Record<string, any>): VehicleSummary {
+  return {
+    id: vehicle.id,
+    year: vehicle.year ?? null,
+    make: vehicle.make ?? null,
+    model: vehicle.model ?? null,
+    vin: vehicle.vin ?? null,
+    stock_number: vehicle.stock_number ?? null,
+  };
+}
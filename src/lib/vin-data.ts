@@ -0,0 +1,132 @@
+/**
+ * Offline tables for decoding VINs (ISO 3779 / 49 CFR 565). Only the
+ * manufacturers we stock or see in trade-ins are listed; other VINs still
+ * decode to their region, model year and check digit.
+ */
+
+export type WmiManufacturer = {
+  manufacturer: string;
+  // Values of `vehicles.make` this manufacturer builds
+  makes: string[];
+  country: string;
+};
+
+/**
+ * World manufacturer identifiers: the first three characters of the VIN
+ */
+export const WMI_MANUFACTURERS: Record<string, WmiManufacturer> = {
+  // Italy
+  ZFF: { manufacturer: 'Ferrari S.p.A.', makes: ['Ferrari'], country: 'Italy' },
+  ZHW: { manufacturer: 'Automobili Lamborghini S.p.A.', makes: ['Lamborghini'], country: 'Italy' },
+  ZPB: { manufacturer: 'Automobili Lamborghini S.p.A. (SUV)', makes: ['Lamborghini'], country: 'Italy' },
+  ZAM: { manufacturer: 'Maserati S.p.A.', makes: ['Maserati'], country: 'Italy' },
+  ZN6: { manufacturer: 'Maserati S.p.A. (SUV)', makes: ['Maserati'], country: 'Italy' },
+  ZAR: { manufacturer: 'Alfa Romeo', makes: ['Alfa Romeo'], country: 'Italy' },
+  ZFA: { manufacturer: 'Fiat', makes: ['Fiat', 'Abarth'], country: 'Italy' },
+
+  // Germany
+  WP0: { manufacturer: 'Dr. Ing. h.c. F. Porsche AG', makes: ['Porsche'], country: 'Germany' },
+  WP1: { manufacturer: 'Dr. Ing. h.c. F. Porsche AG (SUV)', makes: ['Porsche'], country: 'Germany' },
+  WBA: { manufacturer: 'BMW AG', makes: ['BMW'], country: 'Germany' },
+  WBS: { manufacturer: 'BMW M GmbH', makes: ['BMW'], country: 'Germany' },
+  WBY: { manufacturer: 'BMW AG (BMW i)', makes: ['BMW'], country: 'Germany' },
+  WMW: { manufacturer: 'BMW AG (MINI)', makes: ['MINI'], country: 'Germany' },
+  WDB: { manufacturer: 'Mercedes-Benz AG', makes: ['Mercedes-Benz', 'Mercedes-AMG', 'Maybach'], country: 'Germany' },
+  WDD: { manufacturer: 'Mercedes-Benz AG', makes: ['Mercedes-Benz', 'Mercedes-AMG', 'Maybach'], country: 'Germany' },
+  WDC: { manufacturer: 'Mercedes-Benz AG (SUV)', makes: ['Mercedes-Benz', 'Mercedes-AMG', 'Maybach'], country: 'Germany' },
+  W1K: { manufacturer: 'Mercedes-Benz AG', makes: ['Mercedes-Benz', 'Mercedes-AMG', 'Maybach'], country: 'Germany' },
+  W1N: { manufacturer: 'Mercedes-Benz AG (SUV)', makes: ['Mercedes-Benz', 'Mercedes-AMG', 'Maybach'], country: 'Germany' },
+  WAU: { manufacturer: 'Audi AG', makes: ['Audi'], country: 'Germany' },
+  WA1: { manufacturer: 'Audi AG (SUV)', makes: ['Audi'], country: 'Germany' },
+  WUA: { manufacturer: 'Audi Sport GmbH', makes: ['Audi'], country: 'Germany' },
+  WVW: { manufacturer: 'Volkswagen AG', makes: ['Volkswagen'], country: 'Germany' },
+  WVG: { manufacturer: 'Volkswagen AG (SUV)', makes: ['Volkswagen'], country: 'Germany' },
+
+  // United Kingdom
+  SBM: { manufacturer: 'McLaren Automotive', makes: ['McLaren'], country: 'United Kingdom' },
+  SCF: { manufacturer: 'Aston Martin Lagonda', makes: ['Aston Martin'], country: 'United Kingdom' },
+  SCA: { manufacturer: 'Rolls-Royce Motor Cars', makes: ['Rolls-Royce'], country: 'United Kingdom' },
+  SCB: { manufacturer: 'Bentley Motors', makes: ['Bentley'], country: 'United Kingdom' },
+  SAJ: { manufacturer: 'Jaguar Land Rover (Jaguar)', makes: ['Jaguar'], country: 'United Kingdom' },
+  SAD: { manufacturer: 'Jaguar Land Rover (Jaguar SUV)', makes: ['Jaguar'], country: 'United Kingdom' },
+  SAL: { manufacturer: 'Jaguar Land Rover (Land Rover)', makes: ['Land Rover', 'Range Rover'], country: 'United Kingdom' },
+  SCC: { manufacturer: 'Lotus Cars', makes: ['Lotus'], country: 'United Kingdom' },
+
+  // France and Sweden
+  VF9: { manufacturer: 'Bugatti Automobiles S.A.S.', makes: ['Bugatti'], country: 'France' },
+  YV1: { manufacturer: 'Volvo Cars', makes: ['Volvo'], country: 'Sweden' },
+
+  // Japan and Korea
+  JTH: { manufacturer: 'Toyota Motor Corporation (Lexus)', makes: ['Lexus'], country: 'Japan' },
+  JTD: { manufacturer: 'Toyota Motor Corporation', makes: ['Toyota'], country: 'Japan' },
+  JT2: { manufacturer: 'Toyota Motor Corporation', makes: ['Toyota'], country: 'Japan' },
+  JN1: { manufacturer: 'Nissan Motor Co.', makes: ['Nissan', 'Infiniti'], country: 'Japan' },
+  JHM: { manufacturer: 'Honda Motor Co.', makes: ['Honda'], country: 'Japan' },
+  JH4: { manufacturer: 'Honda Motor Co. (Acura)', makes: ['Acura'], country: 'Japan' },
+  JF1: { manufacturer: 'Subaru Corporation', makes: ['Subaru'], country: 'Japan' },
+  JM1: { manufacturer: 'Mazda Motor Corporation', makes: ['Mazda'], country: 'Japan' },
+  KMH: { manufacturer: 'Hyundai Motor Company', makes: ['Hyundai', 'Genesis'], country: 'South Korea' },
+  KNA: { manufacturer: 'Kia Corporation', makes: ['Kia'], country: 'South Korea' },
+
+  // North America
+  '1G1': { manufacturer: 'General Motors (Chevrolet)', makes: ['Chevrolet'], country: 'United States' },
+  '1G6': { manufacturer: 'General Motors (Cadillac)', makes: ['Cadillac'], country: 'United States' },
+  '1GC': { manufacturer: 'General Motors (Chevrolet truck)', makes: ['Chevrolet'], country: 'United States' },
+  '1FA': { manufacturer: 'Ford Motor Company', makes: ['Ford'], country: 'United States' },
+  '1FT': { manufacturer: 'Ford Motor Company (truck)', makes: ['Ford'], country: 'United States' },
+  '1FM': { manufacturer: 'Ford Motor Company (MPV)', makes: ['Ford'], country: 'United States' },
+  '1LN': { manufacturer: 'Ford Motor Company (Lincoln)', makes: ['Lincoln'], country: 'United States' },
+  '1C4': { manufacturer: 'FCA US (Jeep, Chrysler, Dodge)', makes: ['Jeep', 'Chrysler', 'Dodge'], country: 'United States' },
+  '1C6': { manufacturer: 'FCA US (Ram)', makes: ['Ram'], country: 'United States' },
+  '2C3': { manufacturer: 'FCA Canada (Chrysler, Dodge)', makes: ['Chrysler', 'Dodge'], country: 'Canada' },
+  '4JG': { manufacturer: 'Mercedes-Benz U.S. International', makes: ['Mercedes-Benz', 'Mercedes-AMG'], country: 'United States' },
+  '5UX': { manufacturer: 'BMW Manufacturing Co. (SUV)', makes: ['BMW'], country: 'United States' },
+  '5YJ': { manufacturer: 'Tesla, Inc.', makes: ['Tesla'], country: 'United States' },
+  '7SA': { manufacturer: 'Tesla, Inc.', makes: ['Tesla'], country: 'United States' },
+  '19U': { manufacturer: 'Honda of America (Acura)', makes: ['Acura'], country: 'United States' },
+};
+
+/**
+ * Region of manufacture by the first character of the VIN
+ */
+export const VIN_REGIONS: { from: string; to: string; region: string }[] = [
+  { from: 'A', to: 'H', region: 'Africa' },
+  { from: 'J', to: 'J', region: 'Japan' },
+  { from: 'K', to: 'K', region: 'South Korea' },
+  { from: 'L', to: 'L', region: 'China' },
+  { from: 'M', to: 'M', region: 'India / South-East Asia' },
+  { from: 'N', to: 'R', region: 'Asia' },
+  { from: 'S', to: 'S', region: 'United Kingdom / Europe' },
+  { from: 'T', to: 'Z', region: 'Europe' },
+  { from: '1', to: '1', region: 'United States' },
+  { from: '2', to: '2', region: 'Canada' },
+  { from: '3', to: '3', region: 'Mexico' },
+  { from: '4', to: '5', region: 'United States' },
+  { from: '6', to: '6', region: 'Oceania' },
+  { from: '7', to: '7', region: 'New Zealand / United States' },
+  { from: '8', to: '9', region: 'South America' },
+];
+
+/**
+ * Model year codes at position 10. The code at index i stands for 1980 + i
+ * and 2010 + i, as the codes repeat every 30 years.
+ */
+export const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+/**
+ * Assembly plant codes at position 11, by WMI
+ */
+export const PLANT_CODES: Record<string, Record<string, string>> = {
+  ZFF: { '0': 'Maranello, Italy' },
+  ZHW: { L: "Sant'Agata Bolognese, Italy" },
+  ZPB: { L: "Sant'Agata Bolognese, Italy" },
+  WP0: { S: 'Stuttgart-Zuffenhausen, Germany', L: 'Leipzig, Germany' },
+  WP1: { L: 'Leipzig, Germany' },
+  SBM: { W: 'Woking, United Kingdom' },
+  SCA: { U: 'Goodwood, United Kingdom' },
+  SCB: { C: 'Crewe, United Kingdom' },
+  SCF: { G: 'Gaydon, United Kingdom' },
+  '1G1': { '5': 'Bowling Green, Kentucky' },
+  '5YJ': { F: 'Fremont, California', A: 'Austin, Texas' },
+  '7SA': { F: 'Fremont, California', A: 'Austin, Texas' },
+};
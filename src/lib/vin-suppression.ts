@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { getActor } from "./auth";
+import { normalizeVin } from "./vin";
+import type { VehicleRepository } from "./repository";
+
+/**
+ * VINs the vAuto import must skip: a suppressed VIN is neither added nor
+ * restored from the trash, so deleted vehicles stay deleted.
+ */
+
+export const VIN_SUPPRESSIONS_TABLE = 'vehicle_vin_suppressions';
+
+export const vinSuppressionSchema = z.object({
+  vin: z.string(),
+  reason: z.string().nullable(),
+  actor: z.string(),
+  created_at: z.string(),
+});
+
+export type VinSuppression = z.infer<typeof vinSuppressionSchema>;
+
+/**
+ * Add a VIN to the suppression list, replacing the reason if it is already there
+ */
+export async function suppressVin(
+  repository: VehicleRepository,
+  { vin, reason }: { vin: string; reason?: string | null }
+) {
+  return repository.upsertVinSuppression({
+    vin: normalizeVin(vin)!,
+    reason: reason || null,
+    actor: getActor(),
+  });
+}
+
+/**
+ * Remove a VIN from the suppression list. Returns the removed entry, or null when it was not listed.
+ */
+export async function unsuppressVin(repository: VehicleRepository, vin: string) {
+  const { data, error } = await repository.deleteVinSuppressions([normalizeVin(vin)!]);
+  if (error) return { data: null, error };
+  return { data: data[0] ?? null, error: null };
+}
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { WMI_MANUFACTURERS, VIN_REGIONS, MODEL_YEAR_CODES, PLANT_CODES } from "./vin-data";
+
+/**
+ * VIN normalisation, check digit validation and offline decoding.
+ */
+
+export const VIN_LENGTH = 17;
+
+// Letters never used in a VIN, read as the digits they are mistaken for
+const LOOKALIKES: Record<string, string> = { I: '1', O: '0', Q: '0' };
+
+// Values and position weights of the check digit (position 9)
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]+$/;
+
+/**
+ * Trimmed, uppercase VIN without spaces or dashes, with I, O and Q replaced
+ * by 1, 0 and 0. Null when empty.
+ */
+export function normalizeVin(vin: unknown): string | null {
+  if (vin === null || vin === undefined) return null;
+  const normalized = String(vin)
+    .toUpperCase()
+    .replace(/[\s-]+/g, '')
+    .replace(/[IOQ]/g, letter => LOOKALIKES[letter]);
+  return normalized || null;
+}
+
+/**
+ * Expected check digit of a 17 character VIN: '0'-'9' or 'X'
+ */
+export function computeCheckDigit(vin: string): string | null {
+  if (vin.length !== VIN_LENGTH || !VIN_PATTERN.test(vin)) return null;
+
+  let sum = 0;
+  for (let i = 0; i < VIN_LENGTH; i++) {
+    const char = vin[i];
+    const value = char >= '0' && char <= '9' ? Number(char) : TRANSLITERATION[char];
+    sum += value * WEIGHTS[i];
+  }
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+export const vinCheckSchema = z.object({
+  vin: z.string().describe("Normalised VIN"),
+  valid: z.boolean().describe("17 valid characters with a correct check digit"),
+  problems: z.array(z.string()).describe("Why the VIN is not valid"),
+  checkDigit: z.object({
+    expected: z.string(),
+    actual: z.string(),
+    valid: z.boolean(),
+  }).nullable().describe("Check digit at position 9; null when the VIN is too malformed to compute it"),
+});
+
+export type VinCheck = z.infer<typeof vinCheckSchema>;
+
+/**
+ * Validate a normalised VIN: length, characters and check digit
+ */
+export function checkVin(vin: string): VinCheck {
+  const problems: string[] = [];
+
+  if (vin.length !== VIN_LENGTH) {
+    problems.push(`has ${vin.length} characters instead of ${VIN_LENGTH}`);
+  }
+
+  const invalidChars = [...new Set(vin.replace(/[A-HJ-NPR-Z0-9]/g, ''))];
+  if (invalidChars.length > 0) {
+    problems.push(`contains invalid characters: ${invalidChars.join(' ')}`);
+  }
+
+  const expected = computeCheckDigit(vin);
+  const checkDigit = expected === null ? null : { expected, actual: vin[8], valid: expected === vin[8] };
+
+  if (checkDigit && !checkDigit.valid) {
+    problems.push(`has check digit ${checkDigit.actual} at position 9 where ${checkDigit.expected} is expected, so a character is probably mistyped`);
+  }
+
+  return { vin, valid: problems.length === 0, problems, checkDigit };
+}
+
+export function describeVinProblems(check: VinCheck): string {
+  return `VIN ${check.vin} is not valid: it ${check.problems.join(', and ')}.`;
+}
+
+export const vinDecodeSchema = z.object({
+  vin: z.string(),
+  check: vinCheckSchema,
+  wmi: z.string().nullable().describe("World manufacturer identifier, positions 1-3"),
+  manufacturer: z.string().nullable(),
+  makes: z.array(z.string()).describe("Makes built under this WMI"),
+  country: z.string().nullable().describe("Country of the manufacturer, or the region of the first character for unknown WMIs"),
+  modelYear: z.number().nullable().describe("Model year from position 10"),
+  modelYearCandidates: z.array(z.number()).describe("Every model year position 10 can stand for, as the codes repeat every 30 years"),
+  plant: z.object({
+    code: z.string(),
+    name: z.string().nullable(),
+  }).nullable().describe("Assembly plant, position 11"),
+  serialNumber: z.string().nullable().describe("Production sequence number, positions 12-17"),
+});
+
+export type VinDecode = z.infer<typeof vinDecodeSchema>;
+
+/**
+ * Decode a normalised VIN with the bundled tables. Fields that cannot be
+ * read (short VIN, unknown manufacturer) are null.
+ */
+export function decodeVin(vin: string, now = new Date()): VinDecode {
+  const check = checkVin(vin);
+  const wmi = vin.length >= 3 ? vin.slice(0, 3) : null;
+  const entry = wmi ? WMI_MANUFACTURERS[wmi] : undefined;
+  const region = VIN_REGIONS.find(({ from, to }) => vin[0] >= from && vin[0] <= to);
+
+  // Position 7 tells the two cycles apart for North American model years: a digit up to 2009, a letter from 2010
+  const candidates: number[] = [];
+  let modelYear: number | null = null;
+  const yearIndex = vin.length >= 10 ? MODEL_YEAR_CODES.indexOf(vin[9]) : -1;
+
+  if (yearIndex >= 0) {
+    const latest = now.getUTCFullYear() + 1;
+    for (const year of [1980 + yearIndex, 2010 + yearIndex]) {
+      if (year <= latest) candidates.push(year);
+    }
+    const preferred = /[0-9]/.test(vin[6]) ? 1980 + yearIndex : 2010 + yearIndex;
+    modelYear = candidates.includes(preferred) ? preferred : candidates[0];
+  }
+
+  const plantCode = vin.length >= 11 ? vin[10] : null;
+
+  return {
+    vin,
+    check,
+    wmi,
+    manufacturer: entry?.manufacturer ?? null,
+    makes: entry?.makes ?? [],
+    country: entry?.country ?? region?.region ?? null,
+    modelYear,
+    modelYearCandidates: candidates,
+    plant: plantCode ? { code: plantCode, name: (wmi && PLANT_CODES[wmi]?.[plantCode]) || null } : null,
+    serialNumber: vin.length === VIN_LENGTH ? vin.slice(11) : null,
+  };
+}
+
+function normalizeMake(make: string): string {
+  return make.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether a stored make is one the decoded manufacturer builds
+ */
+export function makeMatches(decoded: VinDecode, make: string): boolean {
+  return decoded.makes.some(candidate => normalizeMake(candidate) === normalizeMake(make));
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring characters as one edit
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        d[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
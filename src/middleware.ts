@@ -1,10 +1,90 @@
 import { apiKeyAuthMiddleware, type Middleware } from "xmcp";
+import { API_KEY_HEADER, ACTOR_HEADER, ROLE_HEADER } from "./lib/auth";
+import { findApiKey, type ApiKeyRecord } from "./lib/api-keys";
+import { canUseTool, getToolAccess } from "./lib/permissions";
+import { consumeRateLimit, resolveRateLimits } from "./lib/rate-limit";
 
-const middleware: Middleware = apiKeyAuthMiddleware({
-  headerName: "x-api-key",
-  validateApiKey: async (apiKey) => {
-    return apiKey === process.env.API_KEY;
+// JSON-RPC error codes returned for rejected tool calls
+const PERMISSION_DENIED = -32001;
+const RATE_LIMITED = -32002;
+
+function getToolCalls(body: unknown): any[] {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.filter(message => message?.method === 'tools/call');
+}
+
+const middleware: Middleware[] = [
+  apiKeyAuthMiddleware({
+    headerName: API_KEY_HEADER,
+    validateApiKey: async (apiKey) => {
+      return findApiKey(apiKey) !== null;
+    },
+  }),
+
+  // Expose the caller identity and role to tools (used for the audit log)
+  (req, res, next) => {
+    const apiKey = req.headers[API_KEY_HEADER];
+    const record = typeof apiKey === 'string' ? findApiKey(apiKey) : null;
+    res.locals.apiKey = record;
+    req.headers[ACTOR_HEADER] = record ? record.name : 'anonymous';
+    req.headers[ROLE_HEADER] = record ? record.role : 'viewer';
+    next();
+  },
+
+  // Reject tool calls the key's role or allow-list does not permit, before the tool runs
+  (req, res, next) => {
+    const record: ApiKeyRecord | null = res.locals.apiKey;
+
+    const denied = getToolCalls(req.body).find(call =>
+      !(record && canUseTool(record, String(call.params?.name)))
+    );
+
+    if (!denied) {
+      next();
+      return;
+    }
+
+    res.status(403).json({
+      jsonrpc: '2.0',
+      id: denied.id ?? null,
+      error: {
+        code: PERMISSION_DENIED,
+        message: `Forbidden: API key '${record?.name ?? 'anonymous'}' (role: ${record?.role ?? 'none'}) may not call tool '${denied.params?.name}'`,
+      },
+    });
+  },
+
+  // Per-key token buckets for read and write tools, plus a daily quota
+  (req, res, next) => {
+    const record: ApiKeyRecord | null = res.locals.apiKey;
+    if (!record) {
+      next();
+      return;
+    }
+
+    const limits = resolveRateLimits(record.limits);
+
+    for (const call of getToolCalls(req.body)) {
+      const budget = getToolAccess(String(call.params?.name)) === 'read' ? 'read' : 'write';
+      const result = consumeRateLimit(record.name, limits, budget);
+
+      if (!result.allowed) {
+        res.setHeader('Retry-After', String(result.retryAfterSeconds));
+        res.status(429).json({
+          jsonrpc: '2.0',
+          id: call.id ?? null,
+          error: {
+            code: RATE_LIMITED,
+            message: `Too many requests: ${result.message}`,
+            data: { reason: result.reason, retryAfterSeconds: result.retryAfterSeconds },
+          },
+        });
+        return;
+      }
+    }
+
+    next();
   },
-});
+];
 
-export default middleware;
\ No newline at end of file
+export default middleware;
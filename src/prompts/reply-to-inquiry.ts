@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { type InferSchema, type PromptMetadata } from "xmcp";
+import { promptVehicleSchema, loadPromptVehicle, formatVehicleFacts, formatPrice, vehicleTitle, advertisedPrice } from "../lib/prompt-context";
+
+export const schema = {
+  ...promptVehicleSchema,
+  inquiry: z.string().describe("The customer's message"),
+  customerName: z.string().optional().describe("Optional name of the customer"),
+};
+
+export const metadata: PromptMetadata = {
+  name: "reply-to-inquiry",
+  title: "Reply to Customer Inquiry",
+  description: "Draft a reply to a customer inquiry about a vehicle by VIN or stock number, grounded in the vehicle's data",
+  role: "user",
+};
+
+export default async function replyToInquiry({ vin, stockNumber, inquiry, customerName }: InferSchema<typeof schema>) {
+  const { vehicle } = await loadPromptVehicle({ vin, stockNumber });
+
+  const notesSection = vehicle.notes
+    ? `\nInternal notes (for context only, never quote or reveal them):\n"""\n${vehicle.notes}\n"""\n`
+    : '';
+
+  return `Draft a reply to a customer inquiry about the ${vehicleTitle(vehicle)} in our inventory.
+
+Customer${customerName ? ` (${customerName})` : ''} wrote:
+"""
+${inquiry}
+"""
+
+Vehicle data:
+${formatVehicleFacts(vehicle)}
+
+Advertised price: ${formatPrice(advertisedPrice(vehicle))}
+${vehicle.ai_description ? `\nListing description:\n"""\n${vehicle.ai_description}\n"""\n` : ''}${notesSection}
+Guidelines:
+- Answer the customer's questions using only the vehicle data above. If something is not covered, say we will confirm it rather than guessing.
+- Quote only the advertised price. Do not offer discounts, financing terms or trade-in values.
+- Be warm and professional, and keep it short.
+- End by inviting the customer to schedule a viewing or test drive.${customerName ? `\n- Address the customer as ${customerName}.` : ''}
+
+Return only the reply text.`;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { type InferSchema, type PromptMetadata } from "xmcp";
+import { findAllVehicles, type VehicleRow } from "../lib/repository";
+import { numberStats, type NumberStats } from "../lib/stats";
+import {
+  promptVehicleSchema,
+  loadPromptVehicle,
+  formatVehicleFacts,
+  formatPrice,
+  vehicleTitle,
+  advertisedPrice,
+} from "../lib/prompt-context";
+
+// Comparables listed one by one; the statistics cover all of them
+const MAX_LISTED_COMPARABLES = 20;
+
+export const schema = {
+  ...promptVehicleSchema,
+  yearRange: z.string().optional().describe("Model years either side of the vehicle's year that count as comparable (default 2)"),
+};
+
+export const metadata: PromptMetadata = {
+  name: "review-vehicle-price",
+  title: "Review Vehicle Price",
+  description: "Review the price of a vehicle by VIN or stock number against comparable vehicles (same make and model, nearby years) in our inventory",
+  role: "user",
+};
+
+// Make or model compared case-insensitively, ignoring surrounding spaces
+function sameText(a: unknown, b: unknown): boolean {
+  return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+}
+
+function formatStats(label: string, stats: NumberStats, format: (value: number) => string): string {
+  if (stats.count === 0) return `- ${label}: no data`;
+  return `- ${label} (${stats.count}): min ${format(stats.min!)}, median ${format(stats.median!)}, avg ${format(stats.avg!)}, max ${format(stats.max!)}`;
+}
+
+function formatComparable(vehicle: VehicleRow): string {
+  const details = [
+    `price ${formatPrice(advertisedPrice(vehicle))}`,
+    typeof vehicle.odometer === 'number' ? `${vehicle.odometer.toLocaleString()} miles` : null,
+    vehicle.new_used,
+    vehicle.certified ? 'certified' : null,
+    typeof vehicle.age === 'number' ? `${vehicle.age} days in inventory` : null,
+    vehicle.stock_number ? `stock ${vehicle.stock_number}` : null,
+  ].filter(Boolean);
+
+  return `- ${vehicleTitle(vehicle)}: ${details.join(', ')}`;
+}
+
+export default async function reviewVehiclePrice({ vin, stockNumber, yearRange }: InferSchema<typeof schema>) {
+  const { repository, vehicle } = await loadPromptVehicle({ vin, stockNumber });
+
+  const range = Math.max(0, parseInt(yearRange || '2', 10) || 0);
+  const year = typeof vehicle.year === 'number' ? vehicle.year : undefined;
+
+  const { data, error } = await findAllVehicles(repository, {
+    filters: {
+      make: vehicle.make || undefined,
+      model: vehicle.model || undefined,
+      minYear: year !== undefined ? year - range : undefined,
+      maxYear: year !== undefined ? year + range : undefined,
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch comparable vehicles: ${error.message}`);
+  }
+
+  // The filters are partial matches (model "911" also finds "911 Turbo S"), so keep exact matches only
+  const comparables = data.filter(row =>
+    row.id !== vehicle.id &&
+    (!vehicle.make || sameText(row.make, vehicle.make)) &&
+    (!vehicle.model || sameText(row.model, vehicle.model))
+  );
+  const priced = comparables.filter(row => advertisedPrice(row) !== null);
+  const prices = priced.map(row => advertisedPrice(row)!);
+  const price = advertisedPrice(vehicle);
+
+  const position = price !== null && prices.length > 0
+    ? `${prices.filter(value => value < price).length} of ${prices.length} priced comparables are cheaper than this vehicle.`
+    : 'This vehicle or its comparables have no price to compare.';
+
+  const listed = [...priced]
+    .sort((a, b) => advertisedPrice(a)! - advertisedPrice(b)!)
+    .slice(0, MAX_LISTED_COMPARABLES);
+
+  const comparablesSection = comparables.length > 0
+    ? `Comparable vehicles in our inventory (${vehicle.make} ${vehicle.model}${year !== undefined ? `, ${year - range}-${year + range}` : ''}):
+${formatStats('Price', numberStats(prices), formatPrice)}
+${formatStats('Mileage', numberStats(comparables.map(row => row.odometer).filter((v): v is number => typeof v === 'number')), v => `${v.toLocaleString()} miles`)}
+${formatStats('Days in inventory', numberStats(comparables.map(row => row.age).filter((v): v is number => typeof v === 'number')), v => `${v}`)}
+
+${position}
+
+${listed.length > 0 ? `Cheapest ${listed.length} priced comparables:\n${listed.map(formatComparable).join('\n')}` : 'None of the comparables has a price.'}`
+    : `There are no comparable vehicles in our inventory. Base the review on the vehicle's own data and general market knowledge, and say so.`;
+
+  return `Review the price of the ${vehicleTitle(vehicle)} in our inventory.
+
+Vehicle data:
+${formatVehicleFacts(vehicle)}
+
+Advertised price: ${formatPrice(price)}${typeof vehicle.custom_price === 'number' ? ' (custom price, overrides the vAuto price)' : ''}
+
+${comparablesSection}
+
+Please:
+1. Say whether the advertised price is high, in line or low compared to the comparables, taking mileage, condition, certification and equipment into account.
+2. Consider how long the vehicle has been in inventory compared to the others.
+3. Recommend a price (or keeping the current one) with a short justification.
+
+If a change is agreed, it can be applied with the update-vehicles tool (customPrice) for ${vin ? `VIN ${vin}` : `stock number ${stockNumber}`}.`;
+}
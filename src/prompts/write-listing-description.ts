@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { type InferSchema, type PromptMetadata } from "xmcp";
+import { type VehicleRepository, type VehicleRow } from "../lib/repository";
+import { promptVehicleSchema, loadPromptVehicle, formatVehicleFacts, vehicleTitle } from "../lib/prompt-context";
+
+// Number of existing AI descriptions shown as style references
+const STYLE_EXAMPLES = 3;
+
+export const schema = {
+  ...promptVehicleSchema,
+  tone: z.string().optional().describe("Optional tone, e.g. 'enthusiast', 'luxury', 'concise'"),
+  maxWords: z.string().optional().describe("Optional maximum length in words"),
+};
+
+export const metadata: PromptMetadata = {
+  name: "write-listing-description",
+  title: "Write Listing Description",
+  description: "Write or refresh the listing description of a vehicle by VIN or stock number, from its real data and in the style of our existing AI descriptions",
+  role: "user",
+};
+
+/**
+ * Recently updated AI descriptions of other vehicles, preferring the same make
+ */
+async function findStyleExamples(repository: VehicleRepository, vehicle: VehicleRow): Promise<VehicleRow[]> {
+  const examples: VehicleRow[] = [];
+
+  for (const filters of vehicle.make ? [{ make: vehicle.make }, {}] : [{}]) {
+    const { data, error } = await repository.findVehicles({
+      filters,
+      columns: ['id', 'year', 'make', 'model', 'series', 'ai_description'],
+      orderBy: [{ column: 'updated_at', ascending: false, nullsFirst: false }],
+      limit: 25,
+    });
+
+    // Examples are optional, the prompt still works without them
+    if (error) break;
+
+    for (const row of data) {
+      if (examples.length >= STYLE_EXAMPLES) break;
+      if (row.id !== vehicle.id && row.ai_description && !examples.some(example => example.id === row.id)) {
+        examples.push(row);
+      }
+    }
+
+    if (examples.length >= STYLE_EXAMPLES) break;
+  }
+
+  return examples;
+}
+
+export default async function writeListingDescription({ vin, stockNumber, tone, maxWords }: InferSchema<typeof schema>) {
+  const { repository, vehicle } = await loadPromptVehicle({ vin, stockNumber });
+  const examples = await findStyleExamples(repository, vehicle);
+
+  const currentSection = vehicle.ai_description
+    ? `The vehicle already has this description. Refresh it: keep what is accurate, fix anything the data contradicts and improve the flow:\n"""\n${vehicle.ai_description}\n"""`
+    : `The vehicle has no AI description yet. Write a new one.`;
+
+  const styleSection = examples.length > 0
+    ? `Match the voice, structure and length of these listings from our inventory:\n\n` +
+      examples.map((example, i) => `Example ${i + 1} (${vehicleTitle(example)}):\n"""\n${example.ai_description}\n"""`).join('\n\n')
+    : `There are no existing AI descriptions to use as a style reference. Write in a polished, confident dealership voice.`;
+
+  const guidelines = [
+    'Only use facts from the vehicle data above. Do not invent options, history or condition details.',
+    'Lead with what makes this car desirable, then cover performance, equipment and condition.',
+    'Do not mention the price or how long the vehicle has been in inventory.',
+    tone ? `Tone: ${tone}.` : null,
+    maxWords ? `Keep it under ${maxWords} words.` : null,
+  ].filter(Boolean);
+
+  return `Write the listing description for the ${vehicleTitle(vehicle)} in our inventory.
+
+Vehicle data:
+${formatVehicleFacts(vehicle)}
+
+${currentSection}
+
+${styleSection}
+
+Guidelines:
+${guidelines.map(line => `- ${line}`).join('\n')}
+
+Return only the description text. Once approved it can be saved with the update-vehicles tool (aiDescription) for ${vin ? `VIN ${vin}` : `stock number ${stockNumber}`}.`;
+}
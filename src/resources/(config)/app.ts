@@ -1,11 +1,59 @@
 import { type ResourceMetadata } from "xmcp";
+import { getRepository, getDataSource } from "../../lib/repository";
+import { getMediaStorage, getStorageBackend } from "../../lib/storage";
+import { getActor, getCallerRole } from "../../lib/auth";
+import { loadApiKeys } from "../../lib/api-keys";
+import { TOOL_ACCESS, canUseTool } from "../../lib/permissions";
+import { jsonResource } from "../../lib/resources";
 
 export const metadata: ResourceMetadata = {
   name: "app-config",
   title: "Application Config",
-  description: "Application configuration data",
+  description: "Server state: data source, time of the last vAuto sync, which media storage backend is used and whether it is configured and which tools the caller can use",
+  mimeType: "application/json",
 };
 
-export default function handler() {
-  return "App configuration here";
+/**
+ * The vAuto sync touches every vehicle it imports, so the most recent
+ * `updated_at` is the last time it ran (or a later edit through the tools)
+ */
+async function getLastSync(): Promise<{ lastSyncAt: string | null; error?: string }> {
+  const repository = getRepository();
+  if (!repository) {
+    return { lastSyncAt: null, error: 'Missing Supabase credentials' };
+  }
+
+  const { data, error } = await repository.findVehicles({
+    columns: ['updated_at'],
+    orderBy: [{ column: 'updated_at', ascending: false, nullsFirst: false }],
+    limit: 1,
+  });
+
+  if (error) {
+    return { lastSyncAt: null, error: error.message };
+  }
+
+  return { lastSyncAt: data[0]?.updated_at ?? null };
+}
+
+export default async function handler() {
+  const actor = getActor();
+  const role = getCallerRole();
+  const apiKey = loadApiKeys().find(record => record.name === actor);
+  const lastSync = await getLastSync();
+
+  return jsonResource('config://app', {
+    dataSource: getDataSource(),
+    dataSourceConfigured: getRepository() !== null,
+    lastVautoSyncAt: lastSync.lastSyncAt,
+    ...(lastSync.error ? { lastVautoSyncError: lastSync.error } : {}),
+    storageBackend: getStorageBackend(),
+    storageConfigured: getMediaStorage() !== null,
+    caller: { name: actor, role },
+    tools: Object.entries(TOOL_ACCESS).map(([name, access]) => ({
+      name,
+      access,
+      enabled: canUseTool({ role, tools: apiKey?.tools }, name),
+    })),
+  });
 }
@@ -0,0 +1,48 @@
+import { type ResourceMetadata } from "xmcp";
+import { getRepository, findAllVehicles } from "../../lib/repository";
+import { missingCredentialsError } from "../../lib/tool-result";
+import { jsonResource } from "../../lib/resources";
+
+export const metadata: ResourceMetadata = {
+  name: "inventory-summary",
+  title: "Inventory Summary",
+  description: "Number of active vehicles in total, by condition (new/used) and by make with the condition split",
+  mimeType: "application/json",
+};
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+export default async function handler() {
+  const repository = getRepository();
+  if (!repository) {
+    throw new Error(missingCredentialsError().structuredContent.error.message);
+  }
+
+  const { data: rows, error } = await findAllVehicles(repository, { columns: ['id', 'make', 'new_used'] });
+  if (error) {
+    throw new Error(`Error fetching vehicles: ${error.message}`);
+  }
+
+  const byCondition: Record<string, number> = {};
+  const makes = new Map<string, { make: string; total: number; byCondition: Record<string, number> }>();
+
+  for (const row of rows) {
+    const make = row.make || '(none)';
+    const condition = row.new_used || '(none)';
+
+    increment(byCondition, condition);
+    if (!makes.has(make)) makes.set(make, { make, total: 0, byCondition: {} });
+    const entry = makes.get(make)!;
+    entry.total++;
+    increment(entry.byCondition, condition);
+  }
+
+  return jsonResource('inventory://summary', {
+    totalVehicles: rows.length,
+    byCondition,
+    byMake: [...makes.values()].sort((a, b) => b.total - a.total || a.make.localeCompare(b.make)),
+    generatedAt: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { type ResourceMetadata, type InferSchema } from "xmcp";
+import { vehicleResource } from "../../../lib/resources";
+
+export const schema = {
+  stockNumber: z.string().describe("Stock number of the vehicle"),
+};
+
+export const metadata: ResourceMetadata = {
+  name: "vehicle-by-stock-number",
+  title: "Vehicle by Stock Number",
+  description: "Full record of an active vehicle by stock number, with every column as JSON",
+  mimeType: "application/json",
+};
+
+export default async function handler({ stockNumber }: InferSchema<typeof schema>) {
+  return vehicleResource(`stock://${encodeURIComponent(stockNumber)}`, { stockNumber });
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { type ResourceMetadata, type InferSchema } from "xmcp";
+import { vehicleResource } from "../../../lib/resources";
+
+export const schema = {
+  vin: z.string().describe("VIN of the vehicle"),
+};
+
+export const metadata: ResourceMetadata = {
+  name: "vehicle",
+  title: "Vehicle",
+  description: "Full record of an active vehicle by VIN, with every column as JSON",
+  mimeType: "application/json",
+};
+
+export default async function handler({ vin }: InferSchema<typeof schema>) {
+  return vehicleResource(`vehicles://${encodeURIComponent(vin)}`, { vin });
+}
@@ -1,22 +1,35 @@
 import { z } from "zod";
 import { type InferSchema, type ToolMetadata } from "xmcp";
-import { createClient } from '@supabase/supabase-js';
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { recordAudit, auditWarning } from "../lib/audit";
+import { getActor } from "../lib/auth";
+import {
+  NOTE_CATEGORIES,
+  normalizeNoteBody,
+  syncNotesDigest,
+  notesDigestWarning,
+  noteAuditChanges,
+  formatNote,
+} from "../lib/vehicle-notes";
 
 export const schema = {
   // Identification - exactly one required
-  id: z.number().optional().describe("Add notes to vehicle by specific ID"),
-  vin: z.string().optional().describe("Add notes to vehicle by VIN number"),
-  stockNumber: z.string().optional().describe("Add notes to vehicle by stock number"),
-  
-  // Notes field - optional, can be null to delete notes
-  notes: z.string().nullable().optional().describe("Notes to add to the vehicle. Set to null or empty string to delete existing notes"),
+  id: z.number().optional().describe("Add a note to vehicle by specific ID"),
+  vin: z.string().optional().describe("Add a note to vehicle by VIN number"),
+  stockNumber: z.string().optional().describe("Add a note to vehicle by stock number"),
+
+  note: z.string().describe("Text of the note. It is added to the vehicle's notes; earlier notes are kept"),
+  category: z.enum(NOTE_CATEGORIES).optional().describe("What the note is about"),
 };
 
 export const metadata: ToolMetadata = {
   name: "add-notes",
-  description: "Add or update notes for a vehicle in the SportcarsLux database. Set notes to null to delete them.",
+  description: "Add a note to a vehicle in the SportcarsLux database. Notes are kept as a history: each one records its author and time, with an optional category (pricing, condition, customer), and never replaces earlier notes. Use list-notes to read them, edit-note or delete-note to change one",
   annotations: {
-    title: "Add Notes to Vehicle",
+    title: "Add Note to Vehicle",
     readOnlyHint: false,
     destructiveHint: false,
     idempotentHint: false,
@@ -27,100 +40,74 @@ export default async function addNotes({
   id,
   vin,
   stockNumber,
-  notes,
+  note,
+  category,
 }: InferSchema<typeof schema>) {
   try {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      return `Error: Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env file`;
-    }
-
-    // Validate that exactly one identifier is provided
-    const identifierCount = [id, vin, stockNumber].filter(Boolean).length;
-    if (identifierCount === 0) {
-      return `Error: Please provide one identifier ('id', 'vin', or 'stockNumber') to identify the vehicle.`;
-    }
-
-    if (identifierCount > 1) {
-      return `Error: Please provide only one identifier ('id', 'vin', OR 'stockNumber'), not multiple.`;
-    }
+    const repository = getRepository();
 
-    // Validate that notes is provided
-    if (notes === undefined) {
-      return `Error: Please provide 'notes' field. Use null or empty string to delete existing notes.`;
+    if (!repository) {
+      return missingCredentialsError();
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Build the query to find the vehicle
-    let query = supabase
-      .from('vehicles')
-      .select('id, year, make, model, vin, stock_number, notes')
-      .is('deleted_at', null);
-
-    // Apply filter based on provided identifier
-    if (id) {
-      query = query.eq('id', id);
-    } else if (vin) {
-      query = query.eq('vin', vin);
-    } else if (stockNumber) {
-      query = query.eq('stock_number', stockNumber);
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
     }
 
-    // First, get the vehicle that matches the criteria
-    const { data: vehicles, error: selectError } = await query;
-
-    if (selectError) {
-      return `Error finding vehicle: ${selectError.message}`;
+    const normalized = normalizeNoteBody(note);
+    if ('error' in normalized) {
+      return toolError('INVALID_INPUT', normalized.error);
     }
 
-    if (!vehicles || vehicles.length === 0) {
-      const identifier = id ? `ID: ${id}` : vin ? `VIN: ${vin}` : `Stock Number: ${stockNumber}`;
-      return `No vehicle found with ${identifier}.`;
-    }
+    // Find the vehicle - soft deleted vehicles are excluded
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number'],
+    });
 
-    if (vehicles.length > 1) {
-      return `Error: Multiple vehicles found with the same identifier. This shouldn't happen. Please contact support.`;
+    if (found.error) {
+      return found.error;
     }
 
-    const vehicle = vehicles[0];
+    const vehicle = found.vehicle;
     const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
 
-    // Prepare the update data
-    // If notes is null or empty string, set it to null to delete
-    const notesValue = notes === null || notes === '' ? null : notes;
-    
-    const updateData = {
-      notes: notesValue,
-      updated_at: new Date().toISOString(),
-    };
-
-    // Perform the update
-    const { data: updatedVehicle, error: updateError } = await supabase
-      .from('vehicles')
-      .update(updateData)
-      .eq('id', vehicle.id)
-      .select('id, year, make, model, vin, notes')
-      .single();
-
-    if (updateError) {
-      return `Error updating vehicle notes: ${updateError.message}`;
+    const { data: created, error: insertError } = await repository.insertNote({
+      vehicle_id: vehicle.id,
+      body: normalized.body,
+      category: category ?? null,
+      author: getActor(),
+    });
+
+    if (insertError) {
+      return toolError('DATABASE_ERROR', `Error adding note: ${insertError.message}`, { vehicleId: vehicle.id });
     }
 
-    // Format the response
-    const action = notesValue === null ? 'deleted' : vehicle.notes ? 'updated' : 'added';
-    const notesDisplay = notesValue === null ? 'No notes' : notesValue;
+    const digest = await syncNotesDigest(repository, vehicle.id);
+    const { count: noteCount } = await repository.findNotes({ vehicleIds: [vehicle.id] });
+
+    const audit = await recordAudit(repository, {
+      tool: 'add-notes',
+      changes: noteAuditChanges(null, created),
+    });
+
+    return toolSuccess(
+      `Successfully added a note to vehicle:\n\n` +
+      `Vehicle: ${vehicleInfo}\n` +
+      `ID: ${vehicle.id}\n` +
+      `VIN: ${vehicle.vin || 'N/A'}\n\n` +
+      `${formatNote(created)}\n\n` +
+      `The vehicle now has ${noteCount ?? 1} note(s).${notesDigestWarning(digest)}${auditWarning(audit)}`,
+      {
+        vehicleId: vehicle.id,
+        note: created,
+        noteCount: noteCount ?? 1,
+        vehicle: toVehicleSummary(vehicle),
+      }
+    );
 
-    return `Successfully ${action} notes for vehicle:\n\n` +
-           `Vehicle: ${vehicleInfo}\n` +
-           `ID: ${updatedVehicle.id}\n` +
-           `VIN: ${updatedVehicle.vin || 'N/A'}\n` +
-           `Notes: ${notesDisplay}`;
-    
   } catch (err) {
-    return `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    return unexpectedError(err);
   }
 }
-
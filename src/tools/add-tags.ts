@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { vehicleFilterSchema, hasFilters } from "../lib/vehicle-filters";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository, findAllVehicles, type VehicleRow } from "../lib/repository";
+import { hasIdentifier, validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { auditWarning } from "../lib/audit";
+import { issueConfirmationToken, verifyConfirmationToken, CONFIRMATION_TOKEN_TTL_MS } from "../lib/confirmation";
+import {
+  TAG_COLUMNS,
+  validateTags,
+  planTagChanges,
+  applyTagChanges,
+  formatTagList,
+} from "../lib/vehicle-tags";
+
+export const schema = {
+  // Identification - one vehicle by identifier, or every vehicle matching the filters
+  id: z.number().optional().describe("Tag the vehicle with this ID"),
+  vin: z.string().optional().describe("Tag the vehicle with this VIN"),
+  stockNumber: z.string().optional().describe("Tag the vehicle with this stock number"),
+
+  // Filters to tag multiple vehicles - same as get-vehicles
+  ...vehicleFilterSchema,
+
+  tags: z.array(z.string()).min(1).describe("Tags to add, e.g. ['featured']. Names are normalised: 'Featured ' and 'featured' are the same tag"),
+
+  // Preview and confirmation
+  dryRun: z.boolean().optional().describe("Only preview which vehicles would get the tags. Tagging by filters always previews first"),
+  confirmationToken: z.string().optional().describe("Token returned by the preview of a bulk change. Pass it back with the same filters and tags to apply it"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "add-tags",
+  description: `Add tags to one vehicle (by ID, VIN or stock number) or to every active vehicle matching the get-vehicles filters, keeping the tags they already have. Tag names are normalised to lowercase. Changes by filters return a preview with a confirmationToken first; call again with the same arguments and that token (valid ${CONFIRMATION_TOKEN_TTL_MS / 60000} minutes) to apply. Use remove-tags to take tags off and list-tags to see the tags in use`,
+  annotations: {
+    title: "Add Vehicle Tags",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function addTags({
+  id,
+  vin,
+  stockNumber,
+  tags,
+  dryRun,
+  confirmationToken,
+  ...filters
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const validated = validateTags(tags);
+    if ('error' in validated) {
+      return toolError('INVALID_INPUT', validated.error);
+    }
+
+    const isBulk = !hasIdentifier({ id, vin, stockNumber });
+    let rows: VehicleRow[];
+
+    if (isBulk) {
+      if (!hasFilters(filters)) {
+        return toolError('INVALID_INPUT', `Please specify an identifier (id, vin, stockNumber) or at least one filter (make, model, year, anyTags, ...) to select the vehicles to tag.`);
+      }
+
+      const { data, error } = await findAllVehicles(repository, { filters, columns: TAG_COLUMNS });
+
+      if (error) {
+        return toolError('DATABASE_ERROR', `Error finding vehicles: ${error.message}`);
+      }
+
+      if (data.length === 0) {
+        return toolError('NOT_FOUND', `No vehicles found matching the specified criteria.`);
+      }
+
+      rows = data;
+    } else {
+      // Validate that exactly one identifier is provided
+      const identifierError = validateIdentifier({ id, vin, stockNumber });
+      if (identifierError) {
+        return identifierError;
+      }
+
+      // Find the vehicle - soft deleted vehicles are excluded
+      const found = await findVehicle(repository, { id, vin, stockNumber }, { columns: TAG_COLUMNS });
+
+      if (found.error) {
+        return found.error;
+      }
+
+      rows = [found.vehicle];
+    }
+
+    const changes = planTagChanges(rows, { add: validated.tags });
+    const vehicleIds = changes.map(change => change.vehicle.id);
+    const unchanged = rows.length - changes.length;
+    const tagLabel = formatTagList(validated.tags);
+
+    if (changes.length === 0) {
+      return toolSuccess(
+        `All ${rows.length} matched vehicle(s) already have the tag(s) ${tagLabel}. Nothing has been changed.`,
+        { mode: 'applied' as const, tags: validated.tags, count: 0, vehicleIds, unchanged, changes }
+      );
+    }
+
+    const changeList = changes.map(({ vehicle, before, after }, i) =>
+      `${i + 1}. ${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim() +
+      ` (ID: ${vehicle.id}, Stock Number: ${vehicle.stock_number || 'N/A'})\n` +
+      `   ${formatTagList(before)} → ${formatTagList(after)}`
+    ).join('\n');
+    const unchangedNote = unchanged > 0 ? `\n\n${unchanged} matched vehicle(s) already have the tag(s).` : '';
+
+    // Bulk changes need a confirmation token from a previous preview
+    const confirmationSubject = {
+      scope: 'add-tags',
+      vehicleIds,
+      changes: Object.fromEntries(changes.map(change => [change.vehicle.id, change.after])),
+    };
+
+    if (dryRun || (isBulk && !confirmationToken)) {
+      const confirmation = isBulk ? issueConfirmationToken(confirmationSubject) : null;
+      const instructions = confirmation
+        ? `To apply, call add-tags again with the same arguments and confirmationToken: "${confirmation.token}" (expires ${new Date(confirmation.expiresAt).toLocaleString()}).`
+        : `To apply, call add-tags again without dryRun.`;
+
+      return toolSuccess(
+        `🔍 Preview: ${changes.length} vehicle(s) would be tagged ${tagLabel}. Nothing has been changed yet.\n\n${changeList}${unchangedNote}\n\n${instructions}`,
+        {
+          mode: 'preview' as const,
+          tags: validated.tags,
+          count: changes.length,
+          vehicleIds,
+          unchanged,
+          changes,
+          confirmationToken: confirmation?.token ?? null,
+          expiresAt: confirmation?.expiresAt ?? null,
+        }
+      );
+    }
+
+    if (confirmationToken) {
+      const verification = verifyConfirmationToken(confirmationToken, confirmationSubject);
+      if (!verification.valid) {
+        return toolError('CONFIRMATION_INVALID', verification.error, { vehicleIds });
+      }
+    }
+
+    const { error: updateError, updatedIds, audit } = await applyTagChanges(repository, rows, changes, 'add-tags');
+
+    if (updateError) {
+      return toolError('DATABASE_ERROR', `Error updating tags: ${updateError}`, { vehicleIds, updatedVehicleIds: updatedIds });
+    }
+
+    return toolSuccess(
+      `🏷️  Tagged ${changes.length} vehicle(s) ${tagLabel}.\n\n${changeList}${unchangedNote}${auditWarning(audit)}`,
+      { mode: 'applied' as const, tags: validated.tags, count: changes.length, vehicleIds, unchanged, changes }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { getMediaStorage } from "../lib/storage";
+import {
+  AI_VIDEO_COLUMNS,
+  aiVideoStatus,
+  checkAiVideoObject,
+  describeAiVideoObject,
+} from "../lib/ai-video";
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("Check AI video of vehicle by specific ID"),
+  vin: z.string().optional().describe("Check AI video of vehicle by VIN number"),
+  stockNumber: z.string().optional().describe("Check AI video of vehicle by stock number"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "check-ai-video",
+  description: "Check the AI video of one vehicle: its status in the database (has video, missing, queued for regeneration) and whether the file really exists in the media storage (Cloudflare R2), with its size and last-modified date",
+  annotations: {
+    title: "Check AI Video",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function checkAiVideo({
+  id,
+  vin,
+  stockNumber,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    const found = await findVehicle(repository, { id, vin, stockNumber }, { columns: AI_VIDEO_COLUMNS });
+
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle;
+    const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+    const videoStatus = aiVideoStatus(vehicle);
+    const storage = await checkAiVideoObject(getMediaStorage(), vehicle);
+
+    // A file without a linked video is left over, e.g. from a failed regeneration
+    const consistent = storage.status === 'found' || storage.status === 'missing'
+      ? Boolean(vehicle.ai_video) === (storage.status === 'found')
+      : null;
+
+    const statusLine = videoStatus === 'has_video'
+      ? `🎬 Has video: ${vehicle.ai_video}`
+      : videoStatus === 'queued'
+        ? `⏳ Queued for regeneration since ${new Date(vehicle.ai_video_queued_at).toLocaleString()}`
+        : `➖ No video`;
+
+    let note = '';
+    if (vehicle.ai_video && storage.status === 'missing') {
+      note = `\n\n⚠️  The video is linked but its file does not exist in storage. Use regenerate-ai-videos to queue a new one.`;
+    } else if (!vehicle.ai_video && storage.status === 'found') {
+      note = `\n\n⚠️  No video is linked but a file exists in storage.`;
+    }
+
+    return toolSuccess(
+      `AI video of ${vehicleInfo} (ID: ${vehicle.id}, Stock Number: ${vehicle.stock_number || 'N/A'}):\n\n` +
+      `${statusLine}\n` +
+      `File: ${describeAiVideoObject(storage)}${note}`,
+      {
+        videoStatus,
+        ai_video: vehicle.ai_video ?? null,
+        ai_video_queued_at: vehicle.ai_video_queued_at ?? null,
+        storage,
+        consistent,
+        vehicle: toVehicleSummary(vehicle),
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository, type VehicleRow } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { normalizeVin, decodeVin, makeMatches, type VinDecode } from "../lib/vin";
+
+const VEHICLE_COLUMNS = ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'deleted_at'];
+
+export const schema = {
+  // Identification - exactly one required
+  vin: z.string().optional().describe("VIN to decode. Need not be in the inventory"),
+  id: z.number().optional().describe("Decode the VIN of the vehicle with this ID"),
+  stockNumber: z.string().optional().describe("Decode the VIN of the vehicle with this stock number"),
+};
+
+const mismatchSchema = z.object({
+  field: z.enum(['make', 'year']),
+  stored: z.union([z.string(), z.number()]),
+  decoded: z.string().describe("What the VIN says, e.g. 'Ferrari' or '2018'"),
+});
+
+export const metadata: ToolMetadata = {
+  name: "decode-vin",
+  description: "Decode a VIN offline with bundled tables: manufacturer and country (WMI), model year, assembly plant, serial number and whether the check digit is valid. Given the vin, id or stockNumber of a vehicle in the database, also flags a stored make or year that does not match the VIN",
+  annotations: {
+    title: "Decode VIN",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+function findMismatches(decoded: VinDecode, vehicle: VehicleRow): z.infer<typeof mismatchSchema>[] {
+  const mismatches: z.infer<typeof mismatchSchema>[] = [];
+
+  if (vehicle.make && decoded.makes.length > 0 && !makeMatches(decoded, vehicle.make)) {
+    mismatches.push({ field: 'make', stored: vehicle.make, decoded: decoded.makes.join(' / ') });
+  }
+
+  if (vehicle.year && decoded.modelYear !== null && Number(vehicle.year) !== decoded.modelYear) {
+    mismatches.push({ field: 'year', stored: vehicle.year, decoded: String(decoded.modelYear) });
+  }
+
+  return mismatches;
+}
+
+function formatDecode(decoded: VinDecode): string {
+  const { check } = decoded;
+  const otherYears = decoded.modelYearCandidates.filter(year => year !== decoded.modelYear);
+
+  const lines = [
+    `VIN: ${decoded.vin}`,
+    check.valid
+      ? `✅ Valid VIN (check digit ${check.checkDigit!.actual})`
+      : `❌ Not valid: ${check.problems.join('; ')}`,
+    `Manufacturer: ${decoded.manufacturer || 'Unknown'}${decoded.wmi ? ` (WMI ${decoded.wmi})` : ''}`,
+    `Country: ${decoded.country || 'Unknown'}`,
+    `Model Year: ${decoded.modelYear ?? 'Unknown'}${otherYears.length > 0 ? ` (the code can also mean ${otherYears.join(', ')})` : ''}`,
+  ];
+
+  if (decoded.plant) {
+    lines.push(`Plant: ${decoded.plant.code}${decoded.plant.name ? ` - ${decoded.plant.name}` : ' (not in the bundled tables)'}`);
+  }
+  if (decoded.serialNumber) {
+    lines.push(`Serial Number: ${decoded.serialNumber}`);
+  }
+
+  return lines.join('\n');
+}
+
+export default async function decodeVinTool({
+  vin,
+  id,
+  stockNumber,
+}: InferSchema<typeof schema>) {
+  try {
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    const repository = getRepository();
+    let vehicles: VehicleRow[] = [];
+    let normalizedVin = normalizeVin(vin);
+
+    if (!normalizedVin) {
+      // Decode the VIN of a stored vehicle
+      if (!repository) {
+        return missingCredentialsError();
+      }
+
+      const found = await findVehicle(repository, { id, stockNumber }, { deleted: 'include', columns: VEHICLE_COLUMNS });
+      if (found.error) {
+        return found.error;
+      }
+
+      normalizedVin = normalizeVin(found.vehicle.vin);
+      if (!normalizedVin) {
+        return toolError('INVALID_INPUT', `Vehicle ${found.vehicle.id} has no VIN to decode.`, { vehicleId: found.vehicle.id });
+      }
+      vehicles = [found.vehicle];
+    } else if (repository) {
+      // Decoding works offline; stored vehicles are only needed for the comparison
+      const { data, error } = await repository.findVehiclesByVinOrStockNumber(
+        { vin: normalizedVin },
+        { deleted: 'include', columns: VEHICLE_COLUMNS }
+      );
+
+      if (error) {
+        return toolError('DATABASE_ERROR', `The VIN was decoded, but stored vehicles could not be checked: ${error.message}`);
+      }
+      vehicles = data;
+    }
+
+    const decoded = decodeVin(normalizedVin);
+    const results = vehicles.map(vehicle => ({
+      ...toVehicleSummary(vehicle),
+      deleted_at: vehicle.deleted_at ?? null,
+      mismatches: findMismatches(decoded, vehicle),
+    }));
+
+    const vehicleList = results.map(v => {
+      const title = `${v.year || ''} ${v.make || ''} ${v.model || ''}`.trim();
+      const status = v.deleted_at ? ' [deleted]' : '';
+      const mismatchLines = v.mismatches.map(m => `\n   ⚠️  Stored ${m.field} ${m.stored} does not match the VIN (${m.decoded})`);
+      return `- ${title} (ID: ${v.id}, Stock Number: ${v.stock_number || 'N/A'})${status}${mismatchLines.join('')}`;
+    }).join('\n');
+
+    const storedSection = !repository
+      ? ''
+      : results.length > 0
+        ? `\n\nIn the database:\n${vehicleList}`
+        : `\n\nNo vehicle with this VIN in the database.`;
+
+    return toolSuccess(`${formatDecode(decoded)}${storedSection}`, { decoded, vehicles: results });
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -1,7 +1,12 @@
 import { z } from "zod";
 import { type InferSchema, type ToolMetadata } from "xmcp";
-import { createClient } from '@supabase/supabase-js';
-import { S3Client, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { diffColumns, recordAudit, auditWarning } from "../lib/audit";
+import { getMediaStorage } from "../lib/storage";
+import { AI_VIDEO_COLUMNS, aiVideoKey, missingKeyMessage } from "../lib/ai-video";
 
 export const schema = {
   // Identification - exactly one required
@@ -12,7 +17,7 @@ export const schema = {
 
 export const metadata: ToolMetadata = {
   name: "delete-ai-video",
-  description: "Delete AI video for a vehicle. Sets ai_video field to null in Supabase and deletes the file from Cloudflare R2. This allows the video to be regenerated in the next batch.",
+  description: "Delete AI video for a vehicle. Sets ai_video field to null in Supabase and deletes the file from the media storage (Cloudflare R2). This allows the video to be regenerated in the next batch.",
   annotations: {
     title: "Delete AI Video",
     readOnlyHint: false,
@@ -21,133 +26,65 @@ export const metadata: ToolMetadata = {
   },
 };
 
-/**
- * Delete object from Cloudflare R2 using AWS S3 SDK
- */
-async function deleteFromR2(
-  bucketName: string,
-  objectKey: string,
-  endpoint: string,
-  accessKeyId: string,
-  secretAccessKey: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Create S3 client configured for Cloudflare R2
-    const s3Client = new S3Client({
-      region: 'auto',
-      endpoint: endpoint,
-      credentials: {
-        accessKeyId: accessKeyId,
-        secretAccessKey: secretAccessKey,
-      },
-    });
-
-    // Delete the object
-    const command = new DeleteObjectCommand({
-      Bucket: bucketName,
-      Key: objectKey,
-    });
-
-    await s3Client.send(command);
-    return { success: true };
-  } catch (err) {
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : 'Unknown error deleting from R2',
-    };
-  }
-}
-
 export default async function deleteAiVideo({
   id,
   vin,
   stockNumber,
 }: InferSchema<typeof schema>) {
   try {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      return `Error: Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env file`;
-    }
+    const repository = getRepository();
 
-    // Cloudflare R2 credentials
-    const r2Endpoint = process.env.R2_ENDPOINT;
-    const r2AccessKeyId = process.env.R2_ACCESS_KEY_ID;
-    const r2SecretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
-    const r2BucketName = process.env.R2_BUCKET_NAME;
-
-    // Validate that exactly one identifier is provided
-    const identifierCount = [id, vin, stockNumber].filter(Boolean).length;
-    if (identifierCount === 0) {
-      return `Error: Please provide one identifier ('id', 'vin', or 'stockNumber') to identify the vehicle.`;
+    if (!repository) {
+      return missingCredentialsError();
     }
 
-    if (identifierCount > 1) {
-      return `Error: Please provide only one identifier ('id', 'vin', OR 'stockNumber'), not multiple.`;
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Build the query to find the vehicle
-    let query = supabase
-      .from('vehicles')
-      .select('id, year, make, model, vin, stock_number, ai_video')
-      .is('deleted_at', null);
-
-    // Apply filter based on provided identifier
-    if (id) {
-      query = query.eq('id', id);
-    } else if (vin) {
-      query = query.eq('vin', vin);
-    } else if (stockNumber) {
-      query = query.eq('stock_number', stockNumber);
-    }
-
-    // First, get the vehicle that matches the criteria
-    const { data: vehicles, error: selectError } = await query;
-
-    if (selectError) {
-      return `Error finding vehicle: ${selectError.message}`;
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
     }
 
-    if (!vehicles || vehicles.length === 0) {
-      const identifier = id ? `ID: ${id}` : vin ? `VIN: ${vin}` : `Stock Number: ${stockNumber}`;
-      return `No vehicle found with ${identifier}.`;
-    }
+    // Find the vehicle - soft deleted vehicles are excluded
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      columns: AI_VIDEO_COLUMNS,
+    });
 
-    if (vehicles.length > 1) {
-      return `Error: Multiple vehicles found with the same identifier. This shouldn't happen. Please contact support.`;
+    if (found.error) {
+      return found.error;
     }
 
-    const vehicle = vehicles[0];
+    const vehicle = found.vehicle;
     const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
 
     // Check if vehicle has an ai_video
     if (!vehicle.ai_video) {
-      return `Vehicle ${vehicleInfo} (ID: ${vehicle.id}) does not have an AI video to delete.`;
+      return toolError('NOT_FOUND', `Vehicle ${vehicleInfo} (ID: ${vehicle.id}) does not have an AI video to delete.`, { vehicleId: vehicle.id });
     }
 
-    // Check if vehicle has stock_number (required to construct R2 path)
-    if (!vehicle.stock_number) {
-      return `Vehicle ${vehicleInfo} (ID: ${vehicle.id}) does not have a stock number. Cannot determine R2 file path.`;
+    // The file ai_video links to, else the key template's (by default from the stock number)
+    const videoKey = aiVideoKey(vehicle);
+    if (!videoKey) {
+      return toolError('INVALID_INPUT', `Vehicle ${vehicleInfo} (ID: ${vehicle.id}): ${missingKeyMessage()}.`, { vehicleId: vehicle.id });
     }
 
     const aiVideoUrl = vehicle.ai_video;
-    let r2DeleteResult: { success: boolean; error?: string } | null = null;
-
-    // Delete from Cloudflare R2 if credentials are provided
-    // R2 path format: vehicles/{stockNumber}/ai-video.mp4
-    if (r2Endpoint && r2AccessKeyId && r2SecretAccessKey && r2BucketName) {
-      const objectKey = `vehicles/${vehicle.stock_number}/ai-video.mp4`;
-      
-      r2DeleteResult = await deleteFromR2(
-        r2BucketName,
-        objectKey,
-        r2Endpoint,
-        r2AccessKeyId,
-        r2SecretAccessKey
-      );
+    let storageDeleteResult: { success: boolean; error?: string } | null = null;
+    let objectKey: string | null = null;
+
+    // Delete the file if the media storage is configured
+    const storage = getMediaStorage();
+    if (storage) {
+      objectKey = videoKey;
+
+      try {
+        await storage.deleteObject(objectKey);
+        storageDeleteResult = { success: true };
+      } catch (err) {
+        storageDeleteResult = {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unknown error deleting from storage',
+        };
+      }
     }
 
     // Update Supabase to set ai_video to null
@@ -156,17 +93,21 @@ export default async function deleteAiVideo({
       updated_at: new Date().toISOString(),
     };
 
-    const { data: updatedVehicle, error: updateError } = await supabase
-      .from('vehicles')
-      .update(updateData)
-      .eq('id', vehicle.id)
-      .select('id, year, make, model, vin, ai_video')
-      .single();
+    const { data: updatedVehicles, error: updateError } = await repository.updateVehicles([vehicle.id], updateData, {
+      columns: AI_VIDEO_COLUMNS,
+    });
 
-    if (updateError) {
-      return `Error updating vehicle: ${updateError.message}`;
+    if (updateError || updatedVehicles.length !== 1) {
+      return toolError('DATABASE_ERROR', `Error updating vehicle: ${updateError?.message || 'vehicle was not updated'}`, { vehicleId: vehicle.id });
     }
 
+    const updatedVehicle = updatedVehicles[0];
+
+    const audit = await recordAudit(repository, {
+      tool: 'delete-ai-video',
+      changes: { [vehicle.id]: diffColumns(vehicle, updatedVehicle, ['ai_video']) },
+    });
+
     // Format the response
     let response = `Successfully deleted AI video for vehicle:\n\n` +
                    `Vehicle: ${vehicleInfo}\n` +
@@ -174,23 +115,33 @@ export default async function deleteAiVideo({
                    `VIN: ${updatedVehicle.vin || 'N/A'}\n` +
                    `Previous AI Video URL: ${aiVideoUrl}\n\n`;
 
-    if (r2DeleteResult) {
-      if (r2DeleteResult.success) {
-        response += `✅ File deleted from Cloudflare R2\n`;
+    if (storageDeleteResult && storage) {
+      if (storageDeleteResult.success) {
+        response += `✅ File deleted from ${storage.location}\n`;
       } else {
-        response += `⚠️  Warning: Could not delete file from Cloudflare R2: ${r2DeleteResult.error}\n`;
+        response += `⚠️  Warning: Could not delete file from ${storage.location}: ${storageDeleteResult.error}\n`;
         response += `   (Database field has been set to null)\n`;
       }
     } else {
-      response += `⚠️  Note: Cloudflare R2 credentials not configured. Only database field was updated.\n`;
+      response += `⚠️  Note: Media storage not configured. Only database field was updated.\n`;
     }
 
     response += `\n✅ Database field 'ai_video' set to null. Video will be regenerated in the next batch.`;
-
-    return response;
+    response += auditWarning(audit);
+
+    return toolSuccess(response, {
+      vehicleId: updatedVehicle.id,
+      previousAiVideo: aiVideoUrl,
+      storage: storageDeleteResult
+        ? storageDeleteResult.success
+          ? { status: 'deleted' as const, objectKey }
+          : { status: 'failed' as const, objectKey, error: storageDeleteResult.error }
+        : { status: 'not_configured' as const, objectKey: null },
+      vehicle: toVehicleSummary(updatedVehicle),
+    });
     
   } catch (err) {
-    return `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    return unexpectedError(err);
   }
 }
 
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { recordAudit, auditWarning } from "../lib/audit";
+import {
+  canChangeNote,
+  syncNotesDigest,
+  notesDigestWarning,
+  noteAuditChanges,
+  formatNote,
+} from "../lib/vehicle-notes";
+
+export const schema = {
+  noteId: z.number().describe("ID of the note to delete (from list-notes or search-notes)"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "delete-note",
+  description: "Delete a single vehicle note by its id (see list-notes). The vehicle's other notes are kept. Only the author of the note or an admin can delete it; its text is kept in the audit log",
+  annotations: {
+    title: "Delete Note",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
+};
+
+export default async function deleteNote({
+  noteId,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const { data: existing, error: findError } = await repository.getNote(noteId);
+
+    if (findError) {
+      return toolError('DATABASE_ERROR', `Error finding note: ${findError.message}`);
+    }
+
+    if (!existing) {
+      return toolError('NOT_FOUND', `No note found with ID: ${noteId}.`);
+    }
+
+    if (!canChangeNote(existing)) {
+      return toolError('FORBIDDEN', `Note ${noteId} was written by ${existing.author}. Only its author or an admin can delete it.`, { noteId });
+    }
+
+    const { data: deleted, error: deleteError } = await repository.deleteNote(noteId);
+
+    if (deleteError || !deleted) {
+      return toolError('DATABASE_ERROR', `Error deleting note: ${deleteError?.message || 'note was not deleted'}`, { noteId });
+    }
+
+    const digest = await syncNotesDigest(repository, deleted.vehicle_id);
+
+    const audit = await recordAudit(repository, {
+      tool: 'delete-note',
+      changes: noteAuditChanges(deleted, null),
+    });
+
+    return toolSuccess(
+      `Successfully deleted note ${noteId} of vehicle ${deleted.vehicle_id}:\n\n` +
+      `${formatNote(deleted)}${notesDigestWarning(digest)}${auditWarning(audit)}`,
+      {
+        vehicleId: deleted.vehicle_id,
+        deletedNote: deleted,
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
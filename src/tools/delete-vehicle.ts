@@ -1,16 +1,26 @@
 import { z } from "zod";
 import { type InferSchema, type ToolMetadata } from "xmcp";
-import { createClient } from '@supabase/supabase-js';
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { diffColumns, recordAudit, auditWarning } from "../lib/audit";
+import { getRepository } from "../lib/repository";
+import { describeIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { suppressVin } from "../lib/vin-suppression";
 
 export const schema = {
   // Identification - exactly one required
   vin: z.string().optional().describe("Delete vehicle by VIN number"),
   stockNumber: z.string().optional().describe("Delete vehicle by stock number"),
+
+  // Deletion options
+  reason: z.string().optional().describe("Why the vehicle is being deleted (shown in the trash listing)"),
+  permanent: z.boolean().optional().describe("Permanently purge the row instead of moving it to the trash. Also purges vehicles already in the trash. Cannot be undone"),
+  suppressVin: z.boolean().optional().describe("Add the VIN to the suppression list so the vAuto import does not re-add or restore the vehicle (default true)"),
 };
 
 export const metadata: ToolMetadata = {
   name: "delete-vehicle",
-  description: "Permanently delete a vehicle from Sport Cars Lux database by VIN or stock number. Note: This vehicle will be automatically re-added by vAuto during the next sync/refresh (approximately every 2 hours) IF it is still present in vAuto's inventory.",
+  description: "Delete a vehicle from Sport Cars Lux database by VIN or stock number. By default the vehicle is moved to the trash (soft delete) and can be brought back with restore-vehicle; set permanent to true to purge it for good. The VIN is added to the suppression list so the vAuto import does not re-add the vehicle while it is still in vAuto's inventory; set suppressVin to false to let the next import bring it back.",
   annotations: {
     title: "Delete Vehicle",
     readOnlyHint: false,
@@ -22,76 +32,117 @@ export const metadata: ToolMetadata = {
 export default async function deleteVehicle({
   vin,
   stockNumber,
+  reason,
+  permanent,
+  suppressVin: suppress,
 }: InferSchema<typeof schema>) {
   try {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      return `Error: Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env file`;
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
     }
 
     // Validate that exactly one identifier is provided
     if (!vin && !stockNumber) {
-      return `Error: Please provide either 'vin' or 'stockNumber' to identify the vehicle to delete.`;
+      return toolError('INVALID_INPUT', `Please provide either 'vin' or 'stockNumber' to identify the vehicle to delete.`);
     }
 
     if (vin && stockNumber) {
-      return `Error: Please provide only one identifier ('vin' OR 'stockNumber'), not both.`;
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Build the query to find the vehicle to delete
-    let query = supabase
-      .from('vehicles')
-      .select('id, year, make, model, vin, stock_number');
-
-    // Apply filter based on provided identifier
-    if (vin) {
-      query = query.eq('vin', vin);
-    } else if (stockNumber) {
-      query = query.eq('stock_number', stockNumber);
+      return toolError('INVALID_INPUT', `Please provide only one identifier ('vin' OR 'stockNumber'), not both.`);
     }
 
-    // First, get the vehicle that matches the criteria
-    const { data: vehiclesToDelete, error: selectError } = await query;
+    // Find the vehicle to delete
+    // A permanent delete may also purge a vehicle that is already in the trash
+    const found = await findVehicle(repository, { vin, stockNumber }, {
+      deleted: permanent ? 'include' : 'exclude',
+      notFoundMessage: `No vehicle found with ${describeIdentifier({ vin, stockNumber })}. It may have already been deleted or doesn't exist.`,
+    });
 
-    if (selectError) {
-      return `Error finding vehicle: ${selectError.message}`;
+    if (found.error) {
+      return found.error;
     }
 
-    if (!vehiclesToDelete || vehiclesToDelete.length === 0) {
-      const identifier = vin ? `VIN: ${vin}` : `Stock Number: ${stockNumber}`;
-      return `No vehicle found with ${identifier}. It may have already been deleted or doesn't exist.`;
+    const vehicleToDelete = found.vehicle;
+    const vehicleInfo = `${vehicleToDelete.year || ''} ${vehicleToDelete.make || ''} ${vehicleToDelete.model || ''}`.trim();
+    const deletedAt = new Date().toISOString();
+    let after: Record<string, any> | null = null;
+
+    if (permanent) {
+      // Perform hard delete (permanent deletion)
+      const { error: deleteError } = await repository.deleteVehicles([vehicleToDelete.id]);
+
+      if (deleteError) {
+        return toolError('DATABASE_ERROR', `Error deleting vehicle: ${deleteError.message}`, { vehicleId: vehicleToDelete.id });
+      }
+    } else {
+      // Soft delete: move the vehicle to the trash
+      const { error: updateError } = await repository.updateVehicles([vehicleToDelete.id], {
+        deleted_at: deletedAt,
+        deletion_reason: reason || null,
+        updated_at: deletedAt,
+      });
+
+      if (updateError) {
+        return toolError('DATABASE_ERROR', `Error deleting vehicle: ${updateError.message}`, { vehicleId: vehicleToDelete.id });
+      }
+
+      after = { ...vehicleToDelete, deleted_at: deletedAt, deletion_reason: reason || null };
     }
 
-    if (vehiclesToDelete.length > 1) {
-      return `Error: Multiple vehicles found with the same identifier. This shouldn't happen. Please contact support.`;
+    // A permanent delete records every column of the purged row
+    const audit = await recordAudit(repository, {
+      tool: 'delete-vehicle',
+      changes: { [vehicleToDelete.id]: diffColumns(vehicleToDelete, after) },
+    });
+
+    // Keep the vAuto import from bringing the vehicle back
+    let vinSuppressed = false;
+    let suppressionWarning = '';
+    if (suppress !== false && vehicleToDelete.vin) {
+      const { error: suppressError } = await suppressVin(repository, {
+        vin: vehicleToDelete.vin,
+        reason: reason || 'Deleted with delete-vehicle',
+      });
+
+      if (suppressError) {
+        suppressionWarning = `\n\n⚠️  Warning: The vehicle was deleted but its VIN could not be added to the suppression list: ${suppressError.message}`;
+      } else {
+        vinSuppressed = true;
+      }
     }
 
-    const vehicleToDelete = vehiclesToDelete[0];
-    const vehicleInfo = `${vehicleToDelete.year || ''} ${vehicleToDelete.make || ''} ${vehicleToDelete.model || ''}`.trim();
-
-    // Perform hard delete (permanent deletion)
-    const { error: deleteError } = await supabase
-      .from('vehicles')
-      .delete()
-      .eq('id', vehicleToDelete.id);
+    const syncNotice = vinSuppressed
+      ? `🚫 The VIN was added to the suppression list, so the vAuto import will not re-add it. Use unsuppress-vin to allow it again.`
+      : `⚠️  Warning: This vehicle will be re-added by the next vAuto import IF it is still present in vAuto's inventory.`;
+
+    const modeNotice = permanent
+      ? `🗑️  The vehicle was permanently purged and cannot be restored.`
+      : `♻️  The vehicle was moved to the trash. Use restore-vehicle to bring it back.`;
+
+    return toolSuccess(
+      `Successfully deleted vehicle:\n\n` +
+      `Vehicle: ${vehicleInfo}\n` +
+      `ID: ${vehicleToDelete.id}\n` +
+      `VIN: ${vehicleToDelete.vin || 'N/A'}\n` +
+      `Stock Number: ${vehicleToDelete.stock_number || 'N/A'}\n` +
+      `Reason: ${reason || 'N/A'}\n\n` +
+      `${modeNotice}\n` +
+      syncNotice +
+      suppressionWarning +
+      auditWarning(audit),
+      {
+        deleted: true,
+        mode: permanent ? 'permanent' as const : 'soft' as const,
+        vehicleId: vehicleToDelete.id,
+        deletedAt,
+        reason: reason || null,
+        vinSuppressed,
+        vehicle: toVehicleSummary(vehicleToDelete),
+      }
+    );
 
-    if (deleteError) {
-      return `Error deleting vehicle: ${deleteError.message}`;
-    }
-
-    return `Successfully deleted vehicle:\n\n` +
-           `Vehicle: ${vehicleInfo}\n` +
-           `ID: ${vehicleToDelete.id}\n` +
-           `VIN: ${vehicleToDelete.vin || 'N/A'}\n` +
-           `Stock Number: ${vehicleToDelete.stock_number || 'N/A'}\n\n` +
-           `⚠️  Warning: This vehicle will be automatically re-added by vAuto during the next sync/refresh (approximately every 2 hours) IF it is still present in vAuto's inventory.`;
-    
   } catch (err) {
-    return `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    return unexpectedError(err);
   }
 }
-
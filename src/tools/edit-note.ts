@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository, type VehicleNoteChanges } from "../lib/repository";
+import { recordAudit, auditWarning } from "../lib/audit";
+import { getActor } from "../lib/auth";
+import {
+  NOTE_CATEGORIES,
+  normalizeNoteBody,
+  canChangeNote,
+  syncNotesDigest,
+  notesDigestWarning,
+  noteAuditChanges,
+  formatNote,
+} from "../lib/vehicle-notes";
+
+export const schema = {
+  noteId: z.number().describe("ID of the note (from list-notes or search-notes)"),
+  note: z.string().optional().describe("New text of the note"),
+  category: z.enum(NOTE_CATEGORIES).nullable().optional().describe("New category. Set to null to remove it"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "edit-note",
+  description: "Change the text or category of a single vehicle note by its id (see list-notes). Only the author of the note or an admin can edit it. The previous text is kept in the audit log",
+  annotations: {
+    title: "Edit Note",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function editNote({
+  noteId,
+  note,
+  category,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if (note === undefined && category === undefined) {
+      return toolError('INVALID_INPUT', `Please provide the new 'note' text and/or 'category'.`);
+    }
+
+    const changes: VehicleNoteChanges = {
+      updated_at: new Date().toISOString(),
+      updated_by: getActor(),
+    };
+
+    if (note !== undefined) {
+      const normalized = normalizeNoteBody(note);
+      if ('error' in normalized) {
+        return toolError('INVALID_INPUT', normalized.error);
+      }
+      changes.body = normalized.body;
+    }
+
+    if (category !== undefined) {
+      changes.category = category;
+    }
+
+    const { data: existing, error: findError } = await repository.getNote(noteId);
+
+    if (findError) {
+      return toolError('DATABASE_ERROR', `Error finding note: ${findError.message}`);
+    }
+
+    if (!existing) {
+      return toolError('NOT_FOUND', `No note found with ID: ${noteId}.`);
+    }
+
+    if (!canChangeNote(existing)) {
+      return toolError('FORBIDDEN', `Note ${noteId} was written by ${existing.author}. Only its author or an admin can edit it; add a new note instead.`, { noteId });
+    }
+
+    const { data: updated, error: updateError } = await repository.updateNote(noteId, changes);
+
+    if (updateError || !updated) {
+      return toolError('DATABASE_ERROR', `Error updating note: ${updateError?.message || 'note was not updated'}`, { noteId });
+    }
+
+    const digest = changes.body !== undefined
+      ? await syncNotesDigest(repository, updated.vehicle_id)
+      : { success: true };
+
+    const audit = await recordAudit(repository, {
+      tool: 'edit-note',
+      changes: noteAuditChanges(existing, updated),
+    });
+
+    return toolSuccess(
+      `Successfully edited note ${noteId} of vehicle ${updated.vehicle_id}:\n\n` +
+      `Before:\n${formatNote(existing)}\n\n` +
+      `After:\n${formatNote(updated)}${notesDigestWarning(digest)}${auditWarning(audit)}`,
+      {
+        vehicleId: updated.vehicle_id,
+        previous: existing,
+        note: updated,
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
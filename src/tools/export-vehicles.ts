@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { randomUUID } from 'crypto';
+import { vehicleFilterSchema } from "../lib/vehicle-filters";
+import { getRepository, findAllVehicles } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getMediaStorage, storageNotConfiguredError } from "../lib/storage";
+import {
+  EXPORT_FORMATS,
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_KEY_PREFIX,
+  buildExportFile,
+} from "../lib/vehicle-export";
+
+const DEFAULT_EXPIRY_MINUTES = 60;
+// Longest validity of a presigned URL allowed by S3
+const MAX_EXPIRY_MINUTES = 7 * 24 * 60;
+
+export const schema = {
+  // Same filters as get-vehicles
+  ...vehicleFilterSchema,
+
+  format: z.enum(EXPORT_FORMATS).optional().describe("File format (default: csv)"),
+  columns: z.array(z.enum(EXPORT_COLUMNS)).min(1).optional().describe(`Columns to export, in this order (default: ${DEFAULT_EXPORT_COLUMNS.join(', ')})`),
+  expiresInMinutes: z.number().int().min(1).max(MAX_EXPIRY_MINUTES).optional().describe(`How long the download link stays valid (default: ${DEFAULT_EXPIRY_MINUTES} minutes, at most 7 days)`),
+};
+
+export const metadata: ToolMetadata = {
+  name: "export-vehicles",
+  description: "Export the active vehicles matching the get-vehicles filters (make, model, year range, price range, ...) as a CSV, XLSX or JSON file with the chosen columns. The file is uploaded to the media storage (Cloudflare R2) and the tool returns a download link that expires, by default after an hour",
+  annotations: {
+    title: "Export Vehicles",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
+
+export default async function exportVehicles({
+  format = 'csv',
+  columns,
+  expiresInMinutes,
+  ...filters
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const storage = getMediaStorage();
+    if (!storage) {
+      return storageNotConfiguredError('the export cannot be uploaded');
+    }
+
+    const exportColumns: string[] = [...new Set(columns || DEFAULT_EXPORT_COLUMNS)];
+
+    const { data: vehicles, error } = await findAllVehicles(repository, {
+      filters,
+      columns: [...new Set(['id', ...exportColumns])],
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${error.message}`);
+    }
+
+    if (vehicles.length === 0) {
+      return toolError('NOT_FOUND', `No vehicles match the filters, so there is nothing to export.`);
+    }
+
+    const file = await buildExportFile(vehicles, exportColumns, format);
+
+    // Random part so links to other exports cannot be guessed
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const fileName = `vehicles-${timestamp}.${file.extension}`;
+    const objectKey = `${EXPORT_KEY_PREFIX}${randomUUID()}/${fileName}`;
+    const expiresInSeconds = (expiresInMinutes || DEFAULT_EXPIRY_MINUTES) * 60;
+
+    let downloadUrl: string;
+    try {
+      await storage.putObject(objectKey, file.body, { contentType: file.contentType, fileName });
+      downloadUrl = await storage.getDownloadUrl(objectKey, { expiresInSeconds });
+    } catch (err) {
+      return toolError('STORAGE_ERROR', `Error uploading the export to ${storage.location}: ${err instanceof Error ? err.message : 'Unknown error'}`, { objectKey });
+    }
+
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000).toISOString();
+
+    return toolSuccess(
+      `📄 Exported ${vehicles.length} vehicle(s) to ${format.toUpperCase()} (${exportColumns.length} columns, ${file.body.length.toLocaleString()} bytes).\n\n` +
+      `Download: ${downloadUrl}\n\n` +
+      `The link expires at ${new Date(expiresAt).toLocaleString()}.`,
+      {
+        format,
+        rowCount: vehicles.length,
+        columns: exportColumns,
+        objectKey,
+        bytes: file.body.length,
+        downloadUrl,
+        expiresAt,
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, unexpectedError } from "../lib/tool-result";
+import { getActor, getCallerRole } from "../lib/auth";
+import { loadApiKeys } from "../lib/api-keys";
+import { getKeyUsage, resolveRateLimits } from "../lib/rate-limit";
+
+export const schema = {
+  keyName: z.string().optional().describe("Only show this API key (admins only; other roles always see their own key)"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "get-api-usage",
+  description: "Show the current rate limit usage of API keys on the HTTP transport: remaining read and write calls in the per-minute budgets, calls used today against the daily quota and rejected calls. Admins see every key, other roles only their own",
+  annotations: {
+    title: "Get API Usage",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function getApiUsage({
+  keyName,
+}: InferSchema<typeof schema>) {
+  try {
+    const role = getCallerRole();
+    const actor = getActor();
+
+    if (keyName && role !== 'admin' && keyName !== actor) {
+      return toolError('FORBIDDEN', `Only admins can see the usage of other API keys.`);
+    }
+
+    const records = loadApiKeys().filter(record =>
+      keyName ? record.name === keyName : role === 'admin' || record.name === actor
+    );
+
+    if (records.length === 0) {
+      return toolError('NOT_FOUND', keyName ? `No API key named '${keyName}'.` : `No API keys are configured.`);
+    }
+
+    const keys = records.map(record => ({
+      ...getKeyUsage(record.name, resolveRateLimits(record.limits)),
+      role: record.role,
+    }));
+
+    const keyList = keys.map(key =>
+      `${key.name} (${key.role})\n` +
+      `   Read: ${key.read.available}/${key.read.perMinute} available per minute\n` +
+      `   Write: ${key.write.available}/${key.write.perMinute} available per minute\n` +
+      `   Today: ${key.daily.used}${key.daily.quota > 0 ? `/${key.daily.quota}` : ''} call(s), resets ${new Date(key.daily.resetsAt).toLocaleString()}\n` +
+      `   Since start: ${key.totalCalls} call(s), ${key.rejectedCalls} rejected` +
+      `${key.lastCallAt ? `, last at ${new Date(key.lastCallAt).toLocaleString()}` : ''}`
+    ).join('\n\n');
+
+    return toolSuccess(
+      `API usage (since the server started):\n\n${keyList}`,
+      { keys }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
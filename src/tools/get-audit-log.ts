@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { describeIdentifier, normalizeIdentifier, vehicleNotFoundError } from "../lib/vehicle-lookup";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginationSchema,
+  queryFingerprint,
+  resolveOffset,
+  buildPageInfo,
+} from "../lib/pagination";
+
+export const schema = {
+  // Vehicle filter - at most one
+  vehicleId: z.number().optional().describe("Only entries that touched this vehicle ID"),
+  vin: z.string().optional().describe("Only entries that touched the vehicle with this VIN (including deleted vehicles)"),
+  stockNumber: z.string().optional().describe("Only entries that touched the vehicle with this stock number (including deleted vehicles)"),
+
+  // Entry filters
+  tool: z.string().optional().describe("Only entries written by this tool (e.g. 'update-vehicles')"),
+  actor: z.string().optional().describe("Only entries made by this caller identity"),
+  since: z.string().optional().describe("Only entries at or after this date/time (ISO 8601)"),
+  until: z.string().optional().describe("Only entries at or before this date/time (ISO 8601)"),
+
+  ...paginationSchema,
+};
+
+export const metadata: ToolMetadata = {
+  name: "get-audit-log",
+  description: "Show the audit log of changes made through the vehicle tools (who changed what and when, with before/after values). Filter by vehicle, tool, actor and time range",
+  annotations: {
+    title: "Get Audit Log",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '(empty)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.substring(0, 120)}...` : text;
+}
+
+export default async function getAuditLog({
+  vehicleId,
+  vin,
+  stockNumber,
+  tool,
+  actor,
+  since,
+  until,
+  pageSize,
+  page,
+  cursor,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if ([vehicleId, vin, stockNumber].filter(Boolean).length > 1) {
+      return toolError('INVALID_INPUT', `Please provide only one vehicle filter ('vehicleId', 'vin', OR 'stockNumber'), not multiple.`);
+    }
+
+    for (const [name, value] of [['since', since], ['until', until]] as const) {
+      if (value && isNaN(Date.parse(value))) {
+        return toolError('INVALID_INPUT', `Invalid '${name}' date: ${value}. Use ISO 8601, e.g. 2025-01-31T00:00:00Z.`);
+      }
+    }
+
+    const size = Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const fingerprint = queryFingerprint({ vehicleId, vin, stockNumber, tool, actor, since, until });
+    const pageWindow = resolveOffset({ page, cursor }, size, fingerprint);
+
+    if ('error' in pageWindow) {
+      return toolError('INVALID_INPUT', pageWindow.error);
+    }
+
+    // Resolve VIN / stock number to vehicle IDs, including deleted vehicles
+    let vehicleIds: number[] | null = vehicleId ? [vehicleId] : null;
+    if (vin || stockNumber) {
+      const identifier = normalizeIdentifier({ vin, stockNumber });
+      const { data: vehicles, error: vehicleError } = await repository.findVehicles({
+        ...(identifier.vin ? { vin: identifier.vin } : { stockNumber: identifier.stockNumber }),
+        deleted: 'include',
+        columns: ['id'],
+      });
+
+      if (vehicleError) {
+        return toolError('DATABASE_ERROR', `Error finding vehicle: ${vehicleError.message}`);
+      }
+
+      if (vehicles.length === 0) {
+        return vehicleNotFoundError(repository, identifier, {
+          deleted: 'include',
+          message: `No vehicle found with ${describeIdentifier(identifier)}. Filter by 'vehicleId' for vehicles that were permanently deleted.`,
+        });
+      }
+
+      vehicleIds = vehicles.map(v => v.id);
+    }
+
+    const { data: entries, error, count } = await repository.findAuditEntries({
+      vehicleIds: vehicleIds ?? undefined,
+      tool,
+      actor,
+      since,
+      until,
+      offset: pageWindow.offset,
+      limit: size,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching audit log: ${error.message}`);
+    }
+
+    const pagination = buildPageInfo(count, pageWindow.offset, size, fingerprint);
+
+    if (entries.length === 0) {
+      return toolSuccess(`No audit log entries found.`, { count: 0, entries, pagination });
+    }
+
+    const entryList = entries.map(entry => {
+      const lines = [`[${new Date(entry.created_at).toLocaleString()}] ${entry.tool} by ${entry.actor} (entry ${entry.id})`];
+      for (const [id, columns] of Object.entries(entry.changes)) {
+        if (vehicleIds && !vehicleIds.includes(Number(id))) continue;
+        lines.push(`   Vehicle ${id}:`);
+        for (const [column, change] of Object.entries(columns)) {
+          lines.push(`      ${column}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+        }
+      }
+      return lines.join('\n');
+    }).join('\n\n');
+
+    const nextPageHint = pagination.hasMore
+      ? `\n\n➡️  More results available: call get-audit-log again with cursor "${pagination.nextCursor}" (or page: ${pagination.nextPage}).`
+      : '';
+
+    return toolSuccess(
+      `Found ${pagination.total} audit log entr${pagination.total === 1 ? 'y' : 'ies'} (page ${pagination.page} of ${pagination.totalPages}):\n\n${entryList}${nextPageHint}`,
+      { count: entries.length, entries, pagination }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import {
+  PRICE_FIELDS,
+  syncPriceHistory,
+} from "../lib/price-history";
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("Get price history of vehicle by specific ID"),
+  vin: z.string().optional().describe("Get price history of vehicle by VIN number"),
+  stockNumber: z.string().optional().describe("Get price history of vehicle by stock number"),
+
+  field: z.enum(PRICE_FIELDS).optional().describe("Only show changes to this field (default: both price and custom_price)"),
+  since: z.string().optional().describe("Only changes at or after this date (ISO 8601)"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "get-price-history",
+  description: "Show the timeline of price and custom_price changes for a vehicle, whether made through our tools or by the vAuto sync. Each entry has an id that can be passed to revert-price",
+  annotations: {
+    title: "Get Price History",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+function formatPrice(value: number | null): string {
+  return value === null ? '(none)' : `$${value.toLocaleString()}`;
+}
+
+export default async function getPriceHistory({
+  id,
+  vin,
+  stockNumber,
+  field,
+  since,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    if (since && isNaN(Date.parse(since))) {
+      return toolError('INVALID_INPUT', `Invalid 'since' date: ${since}. Use ISO 8601, e.g. 2025-01-31.`);
+    }
+
+    // Find the vehicle - soft deleted vehicles are excluded
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'price', 'custom_price'],
+    });
+
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle;
+    const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+
+    // Pick up any change made by the vAuto sync before showing the timeline
+    await syncPriceHistory(repository, [vehicle]);
+
+    const { data: entries, error: historyError } = await repository.findPriceHistory({
+      vehicleIds: [vehicle.id],
+      field,
+      since,
+    });
+
+    if (historyError) {
+      return toolError('DATABASE_ERROR', `Error fetching price history: ${historyError.message}`, { vehicleId: vehicle.id });
+    }
+
+    const header = `Price history for ${vehicleInfo} (ID: ${vehicle.id}, VIN: ${vehicle.vin || 'N/A'})\n` +
+      `Current Price: ${formatPrice(vehicle.price ?? null)} | Current Custom Price: ${formatPrice(vehicle.custom_price ?? null)}`;
+
+    const timeline = entries.length === 0
+      ? 'No price changes recorded.'
+      : entries.map(entry =>
+        `#${entry.id} [${new Date(entry.changed_at).toLocaleString()}] ${entry.field}: ` +
+        `${formatPrice(entry.old_value)} → ${formatPrice(entry.new_value)} (${entry.source} by ${entry.actor})`
+      ).join('\n');
+
+    return toolSuccess(`${header}\n\n${timeline}`, {
+      vehicle: {
+        ...toVehicleSummary(vehicle),
+        price: vehicle.price ?? null,
+        custom_price: vehicle.custom_price ?? null,
+      },
+      count: entries.length,
+      entries,
+    });
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
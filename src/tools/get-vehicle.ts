@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { type Vehicle } from "../lib/vehicle";
+import { toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { syncPriceHistory } from "../lib/price-history";
+
+const SECTIONS = [
+  'overview',
+  'pricing',
+  'appearance',
+  'condition',
+  'mechanical',
+  'descriptions',
+  'dealer',
+  'media',
+  'features',
+  'notes',
+  'other',
+  'timestamps',
+] as const;
+
+type Section = typeof SECTIONS[number];
+
+// Columns shown in each section, in display order. Any column not listed here
+// is printed under "other" so the record is always returned in full.
+const SECTION_FIELDS: Record<Exclude<Section, 'other'>, [string, string][]> = {
+  overview: [
+    ['id', 'ID'],
+    ['vin', 'VIN'],
+    ['stock_number', 'Stock Number'],
+    ['year', 'Year'],
+    ['make', 'Make'],
+    ['model', 'Model'],
+    ['series', 'Series'],
+    ['series_detail', 'Series Detail'],
+    ['model_code', 'Model Code'],
+    ['slug', 'Slug'],
+  ],
+  pricing: [
+    ['price', 'Price'],
+    ['custom_price', 'Custom Price'],
+    ['msrp', 'MSRP'],
+  ],
+  appearance: [
+    ['colour', 'Exterior Color'],
+    ['interior_color', 'Interior Color'],
+    ['body', 'Body Type'],
+    ['door_count', 'Door Count'],
+  ],
+  condition: [
+    ['new_used', 'Condition'],
+    ['certified', 'Certified'],
+    ['age', 'Age (days)'],
+    ['odometer', 'Mileage'],
+    ['inventory_date', 'Inventory Date'],
+  ],
+  mechanical: [
+    ['transmission', 'Transmission'],
+    ['drivetrain_desc', 'Drivetrain'],
+    ['fuel', 'Fuel Type'],
+    ['engine', 'Engine'],
+    ['engine_cylinder_count', 'Cylinders'],
+    ['engine_displacement', 'Engine Displacement'],
+    ['city_mpg', 'City MPG'],
+    ['highway_mpg', 'Highway MPG'],
+  ],
+  descriptions: [
+    ['description', 'Description'],
+    ['ai_description', 'AI Description'],
+  ],
+  dealer: [
+    ['dealer_name', 'Dealer'],
+    ['dealer_id', 'Dealer ID'],
+  ],
+  media: [
+    ['photo_count', 'Photo Count'],
+    ['photos_last_modified_date', 'Photos Last Modified'],
+    ['photos', 'Photos'],
+    ['images_hd', 'HD Images'],
+    ['sticker_url', 'Sticker URL'],
+    ['ai_video', 'AI Video'],
+    ['ai_video_queued_at', 'AI Video Queued At'],
+  ],
+  features: [
+    ['features', 'Features'],
+  ],
+  notes: [
+    ['notes', 'Notes'],
+    ['tags', 'Tags'],
+    ['locked_fields', 'Locked Fields'],
+  ],
+  timestamps: [
+    ['created_at', 'Created'],
+    ['updated_at', 'Updated'],
+    ['deleted_at', 'Deleted'],
+  ],
+};
+
+const SECTION_TITLES: Record<Section, string> = {
+  overview: 'Overview',
+  pricing: 'Pricing',
+  appearance: 'Appearance',
+  condition: 'Condition',
+  mechanical: 'Mechanical',
+  descriptions: 'Descriptions',
+  dealer: 'Dealer',
+  media: 'Media',
+  features: 'Features',
+  notes: 'Notes & Tags',
+  other: 'Other',
+  timestamps: 'Timestamps',
+};
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("Get vehicle by specific ID"),
+  vin: z.string().optional().describe("Get vehicle by VIN number"),
+  stockNumber: z.string().optional().describe("Get vehicle by stock number"),
+
+  // Output selection
+  sections: z.array(z.enum(SECTIONS)).optional().describe(
+    `Sections to include in the response (default: all). Available: ${SECTIONS.join(', ')}`
+  ),
+};
+
+export const metadata: ToolMetadata = {
+  name: "get-vehicle",
+  description: "Get the full, untruncated record of a single vehicle by ID, VIN or stock number, including photo and HD image URLs, features, notes and AI video. Data source: vAuto.com, updated every 2 hours",
+  annotations: {
+    title: "Get Vehicle Details",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+/**
+ * Format a single column value for display, listing arrays one item per line
+ */
+function formatValue(key: string, value: any): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(none)';
+    return '\n' + value
+      .map((item, i) => `      ${i + 1}. ${typeof item === 'object' ? JSON.stringify(item) : item}`)
+      .join('\n');
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (key === 'price' || key === 'custom_price' || key === 'msrp') return `$${value.toLocaleString()}`;
+    if (key === 'odometer') return `${value.toLocaleString()} miles`;
+  }
+
+  if (key === 'created_at' || key === 'updated_at' || key === 'deleted_at') {
+    return new Date(value).toLocaleString();
+  }
+
+  return String(value);
+}
+
+export default async function getVehicle({
+  id,
+  vin,
+  stockNumber,
+  sections,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    // Find the vehicle - soft deleted vehicles are excluded
+    const found = await findVehicle(repository, { id, vin, stockNumber });
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle as Vehicle;
+
+    // Record prices changed by the vAuto sync since they were last seen
+    await syncPriceHistory(repository, [vehicle]);
+
+    const vehicleInfo = [vehicle.year, vehicle.make, vehicle.model, vehicle.series].filter(Boolean).join(' ');
+
+    const knownColumns = new Set(
+      Object.values(SECTION_FIELDS).flatMap(fields => fields.map(([key]) => key))
+    );
+    const selectedSections = sections && sections.length > 0 ? sections : SECTIONS;
+
+    const output = SECTIONS
+      .filter(section => selectedSections.includes(section))
+      .map(section => {
+        const fields = section === 'other'
+          ? Object.keys(vehicle).filter(key => !knownColumns.has(key)).sort().map(key => [key, key] as [string, string])
+          : SECTION_FIELDS[section];
+
+        const lines = fields
+          .filter(([key]) => vehicle[key] !== null && vehicle[key] !== undefined && vehicle[key] !== '')
+          .map(([key, label]) => `   ${label}: ${formatValue(key, vehicle[key])}`);
+
+        if (lines.length === 0) return null;
+        return `${SECTION_TITLES[section]}:\n${lines.join('\n')}`;
+      })
+      .filter(Boolean)
+      .join('\n\n');
+
+    return toolSuccess(
+      `${vehicleInfo || `Vehicle ${vehicle.id}`}\n\n${output || 'No data in the selected sections.'}\n\n---\n📊 Data Source: vAuto.com | 🔄 Updated every 2 hours | 🏢 SportcarsLux Database`,
+      { vehicle, sections: [...selectedSections] }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
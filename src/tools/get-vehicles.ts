@@ -1,6 +1,18 @@
 import { z } from "zod";
 import { type InferSchema, type ToolMetadata } from "xmcp";
-import { createClient } from '@supabase/supabase-js';
+import { type Vehicle } from "../lib/vehicle";
+import { vehicleFilterSchema } from "../lib/vehicle-filters";
+import { getRepository, type SortOrder } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginationSchema,
+  queryFingerprint,
+  resolveOffset,
+  buildPageInfo,
+} from "../lib/pagination";
+import { syncPriceHistory } from "../lib/price-history";
 
 /**
  * SportcarsLux Vehicle Database Tool
@@ -14,47 +26,20 @@ import { createClient } from '@supabase/supabase-js';
  */
 
 export const schema = {
-  // Basic filters
-  make: z.string().optional().describe("Filter by vehicle make/brand (e.g., 'Ferrari', 'Porsche')"),
-  model: z.string().optional().describe("Filter by vehicle model (e.g., '911', 'F8')"),
-  year: z.number().optional().describe("Filter by specific year"),
-  minYear: z.number().optional().describe("Filter by minimum year"),
-  maxYear: z.number().optional().describe("Filter by maximum year"),
-  
-  // Price filters
-  minPrice: z.number().optional().describe("Filter by minimum price"),
-  maxPrice: z.number().optional().describe("Filter by maximum price"),
-  hasPrice: z.boolean().optional().describe("Filter vehicles that have a price (true) or don't have a price (false/null)"),
-  
-  // Color filters
-  colour: z.string().optional().describe("Filter by exterior color"),
-  interiorColor: z.string().optional().describe("Filter by interior color"),
-  
-  // Condition & Type
-  newUsed: z.string().optional().describe("Filter by condition: 'New' or 'Used'"),
-  certified: z.string().optional().describe("Filter by certified status"),
-  
-  // Mechanical specs
-  transmission: z.string().optional().describe("Filter by transmission type"),
-  drivetrain: z.string().optional().describe("Filter by drivetrain description"),
-  fuel: z.string().optional().describe("Filter by fuel type"),
-  
-  // Mileage
-  maxOdometer: z.number().optional().describe("Filter by maximum odometer/mileage"),
-  
-  // Other
-  body: z.string().optional().describe("Filter by body type (e.g., 'Coupe', 'Sedan')"),
-  dealerName: z.string().optional().describe("Filter by dealer name"),
-  
+  ...vehicleFilterSchema,
+
   // Sorting and ordering
   sortBy: z.enum(['updated_at', 'created_at', 'year', 'price', 'odometer']).optional().describe("Sort by field"),
   sortOrder: z.enum(['asc', 'desc']).optional().describe("Sort order: 'asc' for ascending, 'desc' for descending"),
-  limit: z.number().optional().describe("Limit number of results returned"),
+
+  // Pagination
+  ...paginationSchema,
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe(`Deprecated alias for 'pageSize' (max ${MAX_PAGE_SIZE})`),
 };
 
 export const metadata: ToolMetadata = {
   name: "get-vehicles",
-  description: "Get all vehicles from SportcarsLux database with optional filters. Data source: vAuto.com, updated every 2 hours",
+  description: `Get vehicles from SportcarsLux database with optional filters, one page at a time (${DEFAULT_PAGE_SIZE} per page by default). The response reports the total number of matches and a 'nextCursor' to fetch the next page. Data source: vAuto.com, updated every 2 hours`,
   annotations: {
     title: "Get Vehicles",
     readOnlyHint: true,
@@ -64,145 +49,69 @@ export const metadata: ToolMetadata = {
 };
 
 export default async function getVehicles({
-  make,
-  model,
-  year,
-  minYear,
-  maxYear,
-  minPrice,
-  maxPrice,
-  hasPrice,
-  colour,
-  interiorColor,
-  newUsed,
-  certified,
-  transmission,
-  drivetrain,
-  fuel,
-  maxOdometer,
-  body,
-  dealerName,
   sortBy,
   sortOrder,
+  pageSize,
+  page,
+  cursor,
   limit,
+  ...filters
 }: InferSchema<typeof schema>) {
   try {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      return `Error: Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env file`;
-    }
+    const repository = getRepository();
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    if (!repository) {
+      return missingCredentialsError();
+    }
 
-    // Start building the query - exclude soft deleted vehicles
-    let query = supabase.from('vehicles').select('*').is('deleted_at', null);
+    // Resolve the page window; cursors are tied to the filters and sorting they were issued for
+    const size = Math.min(pageSize || limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const fingerprint = queryFingerprint({ ...filters, sortBy, sortOrder });
+    const pageWindow = resolveOffset({ page, cursor }, size, fingerprint);
 
-    // Apply filters dynamically
-    if (make) {
-      query = query.ilike('make', `%${make}%`);
-    }
-    
-    if (model) {
-      query = query.ilike('model', `%${model}%`);
-    }
-    
-    if (year) {
-      query = query.eq('year', year);
-    }
-    
-    if (minYear) {
-      query = query.gte('year', minYear);
-    }
-    
-    if (maxYear) {
-      query = query.lte('year', maxYear);
-    }
-    
-    if (minPrice !== undefined) {
-      query = query.gte('price', minPrice);
-    }
-    
-    if (maxPrice !== undefined) {
-      query = query.lte('price', maxPrice);
-    }
-    
-    if (hasPrice !== undefined) {
-      if (hasPrice) {
-        query = query.not('price', 'is', null);
-      } else {
-        query = query.is('price', null);
-      }
-    }
-    
-    if (colour) {
-      query = query.ilike('colour', `%${colour}%`);
-    }
-    
-    if (interiorColor) {
-      query = query.ilike('interior_color', `%${interiorColor}%`);
-    }
-    
-    if (newUsed) {
-      query = query.ilike('new_used', `%${newUsed}%`);
-    }
-    
-    if (certified) {
-      query = query.ilike('certified', `%${certified}%`);
-    }
-    
-    if (transmission) {
-      query = query.ilike('transmission', `%${transmission}%`);
-    }
-    
-    if (drivetrain) {
-      query = query.ilike('drivetrain_desc', `%${drivetrain}%`);
-    }
-    
-    if (fuel) {
-      query = query.ilike('fuel', `%${fuel}%`);
-    }
-    
-    if (maxOdometer !== undefined) {
-      query = query.lte('odometer', maxOdometer);
-    }
-    
-    if (body) {
-      query = query.ilike('body', `%${body}%`);
-    }
-    
-    if (dealerName) {
-      query = query.ilike('dealer_name', `%${dealerName}%`);
+    if ('error' in pageWindow) {
+      return toolError('INVALID_INPUT', pageWindow.error);
     }
 
-    // Apply sorting
+    // Apply sorting - id is always used as a tiebreaker so pages stay stable
+    const orderBy: SortOrder[] = [];
     if (sortBy) {
-      const order = sortOrder || 'desc';
-      query = query.order(sortBy, { ascending: order === 'asc' });
+      orderBy.push({ column: sortBy, ascending: (sortOrder || 'desc') === 'asc' });
     }
+    orderBy.push({ column: 'id', ascending: true });
 
-    // Apply limit
-    if (limit) {
-      query = query.limit(limit);
-    }
-
-    const { data, error } = await query;
+    // Fetch the page window - soft deleted vehicles are excluded
+    const { data, error, count } = await repository.findVehicles({
+      filters,
+      orderBy,
+      offset: pageWindow.offset,
+      limit: size,
+    });
 
     if (error) {
-      return `Error fetching vehicles: ${error.message}`;
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${error.message}`);
     }
 
-    if (!data || data.length === 0) {
-      return `No vehicles found.`;
+    const pagination = buildPageInfo(count, pageWindow.offset, size, fingerprint);
+
+    if (data.length === 0) {
+      const message = pagination.total > 0
+        ? `No vehicles on page ${pagination.page}. ${pagination.total} vehicle(s) match these filters (${pagination.totalPages} page(s)).`
+        : `No vehicles found.`;
+      return toolSuccess(message, { count: 0, vehicles: [], pagination });
     }
 
     // Formatear la respuesta como texto con todos los campos disponibles
-    const vehicleList = data.map((v: any, i: number) => {
+    const vehicles = data as Vehicle[];
+
+    // Record prices changed by the vAuto sync since they were last seen
+    await syncPriceHistory(repository, vehicles);
+
+    const vehicleList = vehicles.map((v: any, i: number) => {
       const fields: string[] = [];
       
       // Basic identification
-      fields.push(`Vehicle ${i + 1}:`);
+      fields.push(`Vehicle ${pageWindow.offset + i + 1}:`);
       if (v.year || v.make || v.model || v.series) {
         fields.push(`   ${[v.year, v.make, v.model, v.series].filter(Boolean).join(' ')}`);
       }
@@ -262,6 +171,7 @@ export default async function getVehicles({
       
       // Other
       if (v.tags) fields.push(`   Tags: ${v.tags}`);
+      if (Array.isArray(v.locked_fields) && v.locked_fields.length > 0) fields.push(`   Locked Fields: ${v.locked_fields.join(', ')} (kept on vAuto import)`);
       if (v.inventory_date) fields.push(`   Inventory Date: ${v.inventory_date}`);
       
       // Timestamps
@@ -271,9 +181,18 @@ export default async function getVehicles({
       return fields.join('\n');
     }).join('\n\n');
 
-    return `Found ${data.length} vehicle(s):\n\n${vehicleList}\n\n---\n📊 Data Source: vAuto.com | 🔄 Updated every 2 hours | 🏢 SportcarsLux Database`;
+    const first = pageWindow.offset + 1;
+    const last = pageWindow.offset + vehicles.length;
+    const nextPageHint = pagination.hasMore
+      ? `\n\n➡️  More results available: call get-vehicles again with the same filters and cursor "${pagination.nextCursor}" (or page: ${pagination.nextPage}).`
+      : '';
+
+    return toolSuccess(
+      `Found ${pagination.total} vehicle(s). Showing ${first}-${last} (page ${pagination.page} of ${pagination.totalPages}):\n\n${vehicleList}${nextPageHint}\n\n---\n📊 Data Source: vAuto.com | 🔄 Updated every 2 hours | 🏢 SportcarsLux Database`,
+      { count: vehicles.length, vehicles, pagination }
+    );
     
   } catch (err) {
-    return `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    return unexpectedError(err);
   }
 }
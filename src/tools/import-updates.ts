@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { getRepository } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getMediaStorage, storageNotConfiguredError } from "../lib/storage";
+import {
+  UPDATE_SHEET_FIELDS,
+  parseUpdateSheet,
+  applyUpdateSheet,
+  formatUpdateSheetReport,
+  type ParsedUpdateSheet,
+} from "../lib/update-sheet";
+
+export const schema = {
+  // Sheet - exactly one required
+  content: z.string().optional().describe(`CSV text with a header row: a VIN and/or Stock Number column plus any of ${UPDATE_SHEET_FIELDS.join(', ')}. Empty cells leave the value unchanged`),
+  objectKey: z.string().optional().describe("Key of a CSV file uploaded to the media storage (R2 bucket), instead of 'content'"),
+
+  // Options
+  dryRun: z.boolean().optional().describe("Only validate the sheet and show what would change, without writing anything"),
+  lockFields: z.boolean().optional().describe("Lock the updated vAuto fields (price, colour, odometer, ...) so the vAuto import keeps the new values (default true), as update-vehicles does"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "import-updates",
+  description: "Apply a spreadsheet of vehicle updates (CSV content or the key of an uploaded file) in one call, e.g. a price sheet from the pricing team. Each row identifies an active vehicle by VIN or stock number and sets the fields update-vehicles supports (price, custom_price, colour, odometer, new_used, ...). Cells are checked for type and range first; rows with errors or unknown vehicles are skipped and the rest applied. Returns a per-row table: applied, unchanged, unknown vehicle or validation error. Use dryRun to preview",
+  annotations: {
+    title: "Import Updates",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function importUpdates({
+  content,
+  objectKey,
+  dryRun,
+  lockFields,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if (!content === !objectKey) {
+      return toolError('INVALID_INPUT', `Please provide either 'content' or 'objectKey' with the update sheet, not both.`);
+    }
+
+    let text = content;
+    if (objectKey) {
+      const storage = getMediaStorage();
+      if (!storage) {
+        return storageNotConfiguredError(`'${objectKey}' cannot be read. Pass the CSV as 'content' instead`);
+      }
+
+      try {
+        text = await storage.getText(objectKey);
+      } catch (err) {
+        return toolError('STORAGE_ERROR', `Could not read '${objectKey}' from ${storage.location}: ${err instanceof Error ? err.message : 'Unknown error'}`, { objectKey });
+      }
+    }
+
+    let sheet: ParsedUpdateSheet;
+    try {
+      sheet = parseUpdateSheet(text!);
+    } catch (err) {
+      return toolError('INVALID_INPUT', `Could not read the update sheet: ${err instanceof Error ? err.message : 'Unknown error'}`, { objectKey: objectKey ?? null });
+    }
+
+    const report = await applyUpdateSheet(repository, sheet, { dryRun, lockFields });
+
+    return toolSuccess(formatUpdateSheetReport(report), report);
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
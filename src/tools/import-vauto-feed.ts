@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { getRepository } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { FEED_FORMATS, detectFeedFormat, parseFeed, type FeedRecord } from "../lib/vauto-feed";
+import { importVautoFeed, formatImportReport } from "../lib/vauto-import";
+
+export const schema = {
+  // Feed - files on the server are only imported with the import:vauto CLI
+  content: z.string().describe("Contents of a vAuto inventory export, as CSV text or a JSON array"),
+  format: z.enum(FEED_FORMATS).optional().describe("Feed format. Detected from the content when omitted"),
+
+  // Import options
+  dryRun: z.boolean().optional().describe("Only report what would be added, updated and removed, without writing anything"),
+  removeMissing: z.boolean().optional().describe("Move active vehicles whose VIN is not in the feed to the trash (default true)"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "import-vauto-feed",
+  description: "Import a vAuto inventory export (CSV or JSON) into the vehicles table. Columns are mapped to our schema, vehicles are upserted by VIN, vehicles in the trash that are back in the feed are restored, and active vehicles no longer in the feed are moved to the trash. Custom prices, AI descriptions, notes and tags are never overwritten. Returns a report with added/updated/removed/skipped counts and row-level errors. Use dryRun to preview",
+  annotations: {
+    title: "Import vAuto Feed",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
+};
+
+export default async function importVautoFeedTool({
+  content,
+  format,
+  dryRun,
+  removeMissing,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if (!content.trim()) {
+      return toolError('INVALID_INPUT', `Please provide the vAuto feed in 'content'.`);
+    }
+
+    let records: FeedRecord[];
+    try {
+      records = parseFeed(content, format || detectFeedFormat(content));
+    } catch (err) {
+      return toolError('INVALID_INPUT', `Could not read the vAuto feed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+
+    const report = await importVautoFeed(repository, records, { dryRun, removeMissing });
+
+    return toolSuccess(formatImportReport(report), report);
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
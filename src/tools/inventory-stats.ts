@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { vehicleFilterSchema } from "../lib/vehicle-filters";
+import { getRepository, findAllVehicles } from "../lib/repository";
+import { numberStatsSchema, numberStats, type NumberStats } from "../lib/stats";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+
+const GROUP_BY_COLUMNS = {
+  make: 'make',
+  model: 'model',
+  body: 'body',
+  dealer: 'dealer_name',
+  new_used: 'new_used',
+} as const;
+
+type GroupByDimension = keyof typeof GROUP_BY_COLUMNS;
+
+const GROUP_BY_DIMENSIONS = Object.keys(GROUP_BY_COLUMNS) as [GroupByDimension, ...GroupByDimension[]];
+
+const groupStatsSchema = z.object({
+  key: z.record(z.string().nullable()).describe("Values of the grouping columns for this group"),
+  count: z.number(),
+  price: numberStatsSchema,
+  odometer: numberStatsSchema,
+  ageBuckets: z.object({
+    '0-30': z.number(),
+    '31-60': z.number(),
+    '61-90': z.number(),
+    '90+': z.number(),
+    unknown: z.number(),
+  }).describe("Number of vehicles by days in inventory"),
+  missingPrice: z.number().describe("Number of vehicles without a price"),
+});
+
+type GroupStats = z.infer<typeof groupStatsSchema>;
+
+export const schema = {
+  ...vehicleFilterSchema,
+  groupBy: z.array(z.enum(GROUP_BY_DIMENSIONS)).optional().describe(
+    `Group results by one or more dimensions: ${GROUP_BY_DIMENSIONS.join(', ')}. Without groupBy only overall totals are returned`
+  ),
+  maxGroups: z.number().int().min(1).optional().describe("Maximum number of groups to return, largest first (default 50)"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "inventory-stats",
+  description: "Inventory analytics for SportcarsLux: vehicle counts, min/avg/median/max of price and odometer, days-in-inventory buckets (0-30/31-60/61-90/90+) and vehicles missing a price. Accepts the same filters as get-vehicles and can group by make, model, body, dealer or new_used",
+  annotations: {
+    title: "Inventory Stats",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+function groupStats(key: Record<string, string | null>, rows: any[]): GroupStats {
+  const prices = rows.map(r => r.price).filter((p): p is number => typeof p === 'number');
+  const odometers = rows.map(r => r.odometer).filter((o): o is number => typeof o === 'number');
+
+  const ageBuckets = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0, unknown: 0 };
+  for (const row of rows) {
+    if (typeof row.age !== 'number') ageBuckets.unknown++;
+    else if (row.age <= 30) ageBuckets['0-30']++;
+    else if (row.age <= 60) ageBuckets['31-60']++;
+    else if (row.age <= 90) ageBuckets['61-90']++;
+    else ageBuckets['90+']++;
+  }
+
+  return {
+    key,
+    count: rows.length,
+    price: numberStats(prices),
+    odometer: numberStats(odometers),
+    ageBuckets,
+    missingPrice: rows.length - prices.length,
+  };
+}
+
+function formatNumberStats(label: string, stats: NumberStats, format: (n: number) => string): string {
+  if (stats.count === 0) return `   ${label}: no data`;
+  return `   ${label}: min ${format(stats.min!)} | avg ${format(stats.avg!)} | median ${format(stats.median!)} | max ${format(stats.max!)} (${stats.count} with value)`;
+}
+
+function formatGroup(title: string, stats: GroupStats): string {
+  const money = (n: number) => `$${Math.round(n).toLocaleString()}`;
+  const miles = (n: number) => `${Math.round(n).toLocaleString()} mi`;
+  const buckets = stats.ageBuckets;
+
+  return [
+    `${title} — ${stats.count} vehicle(s)`,
+    formatNumberStats('Price', stats.price, money),
+    formatNumberStats('Mileage', stats.odometer, miles),
+    `   Age: 0-30d ${buckets['0-30']} | 31-60d ${buckets['31-60']} | 61-90d ${buckets['61-90']} | 90+d ${buckets['90+']}${buckets.unknown ? ` | unknown ${buckets.unknown}` : ''}`,
+    `   Missing price: ${stats.missingPrice}`,
+  ].join('\n');
+}
+
+export default async function inventoryStats({
+  groupBy,
+  maxGroups,
+  ...filters
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const dimensions = groupBy ? [...new Set(groupBy)] : [];
+
+    // Fetch only the columns needed for the aggregates
+    const { data: rows, error } = await findAllVehicles(repository, {
+      filters,
+      columns: ['id', 'make', 'model', 'body', 'dealer_name', 'new_used', 'price', 'odometer', 'age'],
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${error.message}`);
+    }
+
+    // Group rows by the requested dimensions
+    const groups = new Map<string, { key: Record<string, string | null>; rows: any[] }>();
+    if (dimensions.length > 0) {
+      for (const row of rows) {
+        const key: Record<string, string | null> = {};
+        for (const dimension of dimensions) {
+          key[dimension] = row[GROUP_BY_COLUMNS[dimension]] ?? null;
+        }
+        const mapKey = JSON.stringify(key);
+        if (!groups.has(mapKey)) groups.set(mapKey, { key, rows: [] });
+        groups.get(mapKey)!.rows.push(row);
+      }
+    }
+
+    const overall = groupStats({}, rows);
+    const allGroups = [...groups.values()]
+      .map(group => groupStats(group.key, group.rows))
+      .sort((a, b) => b.count - a.count);
+    const shownGroups = allGroups.slice(0, maxGroups || 50);
+
+    // Format the response
+    let response = `Inventory stats for ${rows.length} vehicle(s):\n\n${formatGroup('Overall', overall)}`;
+
+    if (dimensions.length > 0) {
+      const groupList = shownGroups.map(group => {
+        const title = dimensions.map(d => group.key[d] ?? '(none)').join(' / ');
+        return formatGroup(title, group);
+      }).join('\n\n');
+
+      response += `\n\nGrouped by ${dimensions.join(', ')} (${allGroups.length} group(s)` +
+        `${shownGroups.length < allGroups.length ? `, showing top ${shownGroups.length}` : ''}):\n\n${groupList}`;
+    }
+
+    response += `\n\n---\n📊 Data Source: vAuto.com | 🔄 Updated every 2 hours | 🏢 SportcarsLux Database`;
+
+    return toolSuccess(response, {
+      totalVehicles: rows.length,
+      groupBy: dimensions,
+      overall,
+      groups: shownGroups,
+      totalGroups: allGroups.length,
+    });
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
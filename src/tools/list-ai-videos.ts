@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { vehicleFilterSchema } from "../lib/vehicle-filters";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { getMediaStorage, storageNotConfiguredError } from "../lib/storage";
+import {
+  AI_VIDEO_COLUMNS,
+  aiVideoStatus,
+  checkAiVideoObject,
+  describeAiVideoObject,
+  type AiVideoObject,
+} from "../lib/ai-video";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginationSchema,
+  queryFingerprint,
+  resolveOffset,
+  buildPageInfo,
+} from "../lib/pagination";
+
+const STATUS_LABELS = {
+  has_video: '🎬 Has video',
+  missing: '➖ Missing',
+  queued: '⏳ Queued for regeneration',
+};
+
+export const schema = {
+  // Same filters as get-vehicles, including aiVideoStatus
+  ...vehicleFilterSchema,
+
+  checkStorage: z.boolean().optional().describe("Also check that the video file of each listed vehicle exists in the media storage (HEAD request) and report its size and last-modified date"),
+  ...paginationSchema,
+};
+
+export const metadata: ToolMetadata = {
+  name: "list-ai-videos",
+  description: "List active vehicles with their AI video status: has video, missing, or queued for regeneration. Filter by aiVideoStatus and any get-vehicles filter (make, model, year range, ...). With checkStorage, confirms that each video file exists in the media storage (Cloudflare R2) and shows its size and last-modified date",
+  annotations: {
+    title: "List AI Videos",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function listAiVideos({
+  checkStorage,
+  pageSize,
+  page,
+  cursor,
+  ...filters
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const mediaStorage = checkStorage ? getMediaStorage() : null;
+    if (checkStorage && !mediaStorage) {
+      return storageNotConfiguredError(`the video files cannot be checked. Call again without checkStorage, or configure it`);
+    }
+
+    const size = Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const fingerprint = queryFingerprint(filters);
+    const pageWindow = resolveOffset({ page, cursor }, size, fingerprint);
+
+    if ('error' in pageWindow) {
+      return toolError('INVALID_INPUT', pageWindow.error);
+    }
+
+    const { data, error, count } = await repository.findVehicles({
+      filters,
+      columns: AI_VIDEO_COLUMNS,
+      orderBy: [{ column: 'id', ascending: true }],
+      offset: pageWindow.offset,
+      limit: size,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${error.message}`);
+    }
+
+    const storage: (AiVideoObject | undefined)[] = [];
+    for (const row of data) {
+      storage.push(mediaStorage && row.ai_video ? await checkAiVideoObject(mediaStorage, row) : undefined);
+    }
+
+    const pagination = buildPageInfo(count, pageWindow.offset, size, fingerprint);
+    const vehicles = data.map((row, i) => ({
+      ...toVehicleSummary(row),
+      videoStatus: aiVideoStatus(row),
+      ai_video: row.ai_video ?? null,
+      ai_video_queued_at: row.ai_video_queued_at ?? null,
+      ...(storage[i] ? { storage: storage[i] } : {}),
+    }));
+
+    if (vehicles.length === 0) {
+      return toolSuccess(`No vehicles found matching the specified criteria.`, { count: 0, vehicles, pagination });
+    }
+
+    const vehicleList = vehicles.map((v, i) => {
+      const lines = [
+        `${pageWindow.offset + i + 1}. ${v.year || ''} ${v.make || ''} ${v.model || ''}`.trim() +
+        ` (ID: ${v.id}, Stock Number: ${v.stock_number || 'N/A'})`,
+        `   ${STATUS_LABELS[v.videoStatus]}` +
+        (v.ai_video_queued_at ? ` since ${new Date(v.ai_video_queued_at).toLocaleString()}` : ''),
+      ];
+      if (v.ai_video) lines.push(`   Video: ${v.ai_video}`);
+      if (v.storage) lines.push(`   File: ${describeAiVideoObject(v.storage)}`);
+      return lines.join('\n');
+    }).join('\n\n');
+
+    const missingFiles = storage.filter(object => object && object.status === 'missing').length;
+    const storageSummary = missingFiles > 0
+      ? `\n\n⚠️  ${missingFiles} vehicle(s) on this page link to a video file that does not exist in storage. Use regenerate-ai-videos to queue new ones.`
+      : '';
+
+    const nextPageHint = pagination.hasMore
+      ? `\n\n➡️  More results available: call list-ai-videos again with cursor "${pagination.nextCursor}" (or page: ${pagination.nextPage}).`
+      : '';
+
+    return toolSuccess(
+      `Found ${pagination.total} vehicle(s) (page ${pagination.page} of ${pagination.totalPages}):\n\n${vehicleList}${storageSummary}${nextPageHint}`,
+      { count: vehicles.length, vehicles, pagination }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginationSchema,
+  queryFingerprint,
+  resolveOffset,
+  buildPageInfo,
+} from "../lib/pagination";
+
+export const schema = {
+  make: z.string().optional().describe("Filter by vehicle make/brand"),
+  model: z.string().optional().describe("Filter by vehicle model"),
+  deletedSince: z.string().optional().describe("Only vehicles deleted at or after this date (ISO 8601)"),
+  ...paginationSchema,
+};
+
+export const metadata: ToolMetadata = {
+  name: "list-deleted-vehicles",
+  description: "List soft-deleted vehicles in the trash, most recently deleted first, with deletion time and reason. Use restore-vehicle to bring one back",
+  annotations: {
+    title: "List Deleted Vehicles",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function listDeletedVehicles({
+  make,
+  model,
+  deletedSince,
+  pageSize,
+  page,
+  cursor,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if (deletedSince && isNaN(Date.parse(deletedSince))) {
+      return toolError('INVALID_INPUT', `Invalid 'deletedSince' date: ${deletedSince}. Use ISO 8601, e.g. 2025-01-31.`);
+    }
+
+    const size = Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const fingerprint = queryFingerprint({ make, model, deletedSince });
+    const pageWindow = resolveOffset({ page, cursor }, size, fingerprint);
+
+    if ('error' in pageWindow) {
+      return toolError('INVALID_INPUT', pageWindow.error);
+    }
+
+    // Only vehicles in the trash
+    const { data, error, count } = await repository.findVehicles({
+      deleted: 'only',
+      filters: { make, model },
+      deletedSince,
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'deleted_at', 'deletion_reason'],
+      orderBy: [
+        { column: 'deleted_at', ascending: false },
+        { column: 'id', ascending: true },
+      ],
+      offset: pageWindow.offset,
+      limit: size,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching deleted vehicles: ${error.message}`);
+    }
+
+    const pagination = buildPageInfo(count, pageWindow.offset, size, fingerprint);
+    const vehicles = data.map(v => ({
+      ...toVehicleSummary(v),
+      deleted_at: v.deleted_at as string,
+      deletion_reason: v.deletion_reason ?? null,
+    }));
+
+    if (vehicles.length === 0) {
+      return toolSuccess(`No deleted vehicles found.`, { count: 0, vehicles, pagination });
+    }
+
+    const vehicleList = vehicles.map((v, i) =>
+      `${pageWindow.offset + i + 1}. ${v.year || ''} ${v.make || ''} ${v.model || ''}`.trim() +
+      ` (ID: ${v.id}, VIN: ${v.vin || 'N/A'}, Stock Number: ${v.stock_number || 'N/A'})\n` +
+      `   Deleted: ${new Date(v.deleted_at).toLocaleString()}\n` +
+      `   Reason: ${v.deletion_reason || 'N/A'}`
+    ).join('\n\n');
+
+    const nextPageHint = pagination.hasMore
+      ? `\n\n➡️  More results available: call list-deleted-vehicles again with cursor "${pagination.nextCursor}" (or page: ${pagination.nextPage}).`
+      : '';
+
+    return toolSuccess(
+      `Found ${pagination.total} deleted vehicle(s) (page ${pagination.page} of ${pagination.totalPages}):\n\n${vehicleList}${nextPageHint}`,
+      { count: vehicles.length, vehicles, pagination }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
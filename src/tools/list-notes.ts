@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { NOTE_CATEGORIES, formatNote } from "../lib/vehicle-notes";
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("List notes of vehicle by specific ID"),
+  vin: z.string().optional().describe("List notes of vehicle by VIN number"),
+  stockNumber: z.string().optional().describe("List notes of vehicle by stock number"),
+
+  category: z.enum(NOTE_CATEGORIES).optional().describe("Only notes in this category"),
+  author: z.string().optional().describe("Only notes written by this API key name"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "list-notes",
+  description: "List the notes of a vehicle, newest first, with their author, time, category and any later edit. Each note has an id that can be passed to edit-note or delete-note",
+  annotations: {
+    title: "List Vehicle Notes",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function listNotes({
+  id,
+  vin,
+  stockNumber,
+  category,
+  author,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    // Find the vehicle - soft deleted vehicles are excluded
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number'],
+    });
+
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle;
+    const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+
+    const { data: notes, error } = await repository.findNotes({
+      vehicleIds: [vehicle.id],
+      category,
+      author,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching notes: ${error.message}`, { vehicleId: vehicle.id });
+    }
+
+    const header = `Notes for ${vehicleInfo} (ID: ${vehicle.id}, VIN: ${vehicle.vin || 'N/A'})`;
+    const list = notes.length === 0
+      ? (category || author ? 'No notes match the criteria.' : 'No notes yet. Use add-notes to add one.')
+      : notes.map(formatNote).join('\n\n');
+
+    return toolSuccess(`${header}\n\n${list}`, {
+      vehicle: toVehicleSummary(vehicle),
+      count: notes.length,
+      notes,
+    });
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
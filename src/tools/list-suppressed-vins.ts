@@ -0,0 +1,48 @@
+import { type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+
+export const schema = {};
+
+export const metadata: ToolMetadata = {
+  name: "list-suppressed-vins",
+  description: "List the VINs the vAuto import skips, most recently suppressed first, with who suppressed them and why",
+  annotations: {
+    title: "List Suppressed VINs",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function listSuppressedVins() {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const { data: suppressions, error } = await repository.findVinSuppressions();
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching the suppression list: ${error.message}`);
+    }
+
+    if (suppressions.length === 0) {
+      return toolSuccess(`No VINs are suppressed.`, { count: 0, suppressions: [] });
+    }
+
+    const list = suppressions.map((entry, i) =>
+      `${i + 1}. ${entry.vin} - ${entry.reason || 'no reason given'} (by ${entry.actor}, ${new Date(entry.created_at).toLocaleString()})`
+    ).join('\n');
+
+    return toolSuccess(
+      `${suppressions.length} suppressed VIN(s):\n\n${list}`,
+      { count: suppressions.length, suppressions }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,79 @@
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { vehicleFilterSchema } from "../lib/vehicle-filters";
+import { getRepository, findAllVehicles } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { TAG_SEPARATORS, normalizeTag, parseTags } from "../lib/vehicle-tags";
+
+export const schema = {
+  // Count tags among the vehicles matching these filters - same as get-vehicles
+  ...vehicleFilterSchema,
+};
+
+export const metadata: ToolMetadata = {
+  name: "list-tags",
+  description: "List all tags in use on active vehicles with the number of vehicles carrying each, most used first. Accepts the same filters as get-vehicles. Spellings that differ only in case or spacing count as the same tag and are listed as variants",
+  annotations: {
+    title: "List Tags",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function listTags(filters: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const { data: rows, error } = await findAllVehicles(repository, { filters, columns: ['id', 'tags'] });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${error.message}`);
+    }
+
+    const counts = new Map<string, { count: number; variants: Set<string> }>();
+    let untaggedVehicles = 0;
+
+    for (const row of rows) {
+      const tags = parseTags(row.tags);
+      if (tags.length === 0) untaggedVehicles++;
+
+      for (const tag of tags) {
+        if (!counts.has(tag)) counts.set(tag, { count: 0, variants: new Set() });
+        counts.get(tag)!.count++;
+      }
+
+      // Stored spellings that normalise to a tag
+      for (const raw of typeof row.tags === 'string' ? row.tags.split(TAG_SEPARATORS) : []) {
+        const spelling = raw.trim();
+        const entry = counts.get(normalizeTag(raw));
+        if (entry && spelling !== normalizeTag(raw)) entry.variants.add(spelling);
+      }
+    }
+
+    const tags = [...counts.entries()]
+      .map(([tag, { count, variants }]) => ({ tag, count, variants: [...variants].sort() }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+
+    const result = { totalVehicles: rows.length, untaggedVehicles, tags };
+
+    if (tags.length === 0) {
+      return toolSuccess(`No tags in use on the ${rows.length} matched vehicle(s).`, result);
+    }
+
+    const tagList = tags.map(({ tag, count, variants }) =>
+      `   ${tag}: ${count}${variants.length > 0 ? ` (also stored as ${variants.map(v => `"${v}"`).join(', ')})` : ''}`
+    ).join('\n');
+
+    return toolSuccess(
+      `${tags.length} tag(s) in use on ${rows.length} vehicle(s), ${untaggedVehicles} without tags:\n\n${tagList}`,
+      result
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
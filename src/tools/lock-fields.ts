@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { diffColumns, recordAudit, auditWarning } from "../lib/audit";
+import { LOCKABLE_FIELDS, addLockedFields, getLockedFields, sameFields } from "../lib/field-locks";
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("Lock fields of the vehicle with this ID"),
+  vin: z.string().optional().describe("Lock fields of the vehicle with this VIN"),
+  stockNumber: z.string().optional().describe("Lock fields of the vehicle with this stock number"),
+
+  fields: z.array(z.enum(LOCKABLE_FIELDS)).min(1).describe(`Columns the vAuto import must not overwrite. Available: ${LOCKABLE_FIELDS.join(', ')}`),
+};
+
+export const metadata: ToolMetadata = {
+  name: "lock-fields",
+  description: "Lock fields of a vehicle so the vAuto import keeps their current value. update-vehicles locks the fields it changes automatically; use this to lock values that are already right. Use unlock-fields to let the feed update them again",
+  annotations: {
+    title: "Lock Vehicle Fields",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function lockFields({
+  id,
+  vin,
+  stockNumber,
+  fields,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'locked_fields'],
+    });
+
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle;
+    const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+    const currentLocks = getLockedFields(vehicle);
+    const lockedFields = addLockedFields(vehicle, fields);
+    const added = lockedFields.filter(field => !currentLocks.includes(field));
+
+    if (!sameFields(lockedFields, currentLocks)) {
+      const { error: updateError } = await repository.updateVehicles([vehicle.id], {
+        locked_fields: lockedFields,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (updateError) {
+        return toolError('DATABASE_ERROR', `Error locking fields: ${updateError.message}`, { vehicleId: vehicle.id });
+      }
+    }
+
+    // Nothing is recorded when the locks did not change
+    const audit = await recordAudit(repository, {
+      tool: 'lock-fields',
+      changes: { [vehicle.id]: diffColumns(vehicle, { locked_fields: lockedFields }, ['locked_fields']) },
+    });
+
+    return toolSuccess(
+      `${added.length > 0 ? `🔒 Locked ${added.join(', ')}` : 'All requested fields were already locked'} for vehicle:\n\n` +
+      `Vehicle: ${vehicleInfo}\n` +
+      `ID: ${vehicle.id}\n` +
+      `VIN: ${vehicle.vin || 'N/A'}\n` +
+      `Locked fields: ${lockedFields.join(', ')}\n\n` +
+      `The vAuto import will keep the current values of these fields.${auditWarning(audit)}`,
+      {
+        vehicleId: vehicle.id,
+        added,
+        lockedFields,
+        vehicle: toVehicleSummary(vehicle),
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository, findAllVehicles } from "../lib/repository";
+import { auditWarning } from "../lib/audit";
+import { getMediaStorage, storageNotConfiguredError, type StoredObject } from "../lib/storage";
+import {
+  STORAGE_ISSUE_TYPES,
+  RECONCILE_COLUMNS,
+  vehicleMediaPrefix,
+  findStorageIssues,
+  cleanStorageIssues,
+  type StorageIssue,
+  type StorageIssueType,
+} from "../lib/storage-reconciliation";
+
+// Issues listed per type in the text; the structured result has all of them
+const MAX_LISTED_ISSUES = 25;
+
+const TYPE_LABELS: Record<StorageIssueType, string> = {
+  orphaned_object: 'Orphaned objects (no matching vehicle)',
+  unlinked_video: 'Unlinked videos (file exists, ai_video empty)',
+  dangling_url: 'Dangling URLs (ai_video set, file missing)',
+  mismatched_key: 'Mismatched keys (ai_video points elsewhere)',
+};
+
+const STATUS_ICONS: Record<StorageIssue['status'], string> = {
+  planned: '•',
+  done: '✅',
+  failed: '❌',
+  report_only: '⚠️ ',
+};
+
+export const schema = {
+  types: z.array(z.enum(STORAGE_ISSUE_TYPES)).min(1).optional().describe(`Issue types to report and clean up (default: all of ${STORAGE_ISSUE_TYPES.join(', ')})`),
+  dryRun: z.boolean().optional().describe("Only report the issues (default true). Set to false to delete orphaned and unlinked objects and clear dangling ai_video URLs; mismatched keys are never changed"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "reconcile-storage",
+  description: `Compare the AI video files in the media storage (keys of the video key template, by default vehicles/{stockNumber}/ai-video.{ext} in the R2 bucket) with the vehicles' key columns and ai_video. Reports orphaned videos of vehicles that no longer exist, video files no vehicle links to, ai_video URLs whose file is missing and URLs pointing to another vehicle's key. Only reports by default; with dryRun false it deletes the orphaned and unlinked videos and clears the dangling URLs. Files are never deleted when the key template starts with a placeholder`,
+  annotations: {
+    title: "Reconcile Storage",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
+};
+
+export default async function reconcileStorage({
+  types,
+  dryRun = true,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const storage = getMediaStorage();
+    if (!storage) {
+      return storageNotConfiguredError('there is nothing to reconcile');
+    }
+
+    // Empty when the key template starts with a placeholder: the whole storage is listed
+    const prefix = vehicleMediaPrefix();
+    const scope = `${prefix ? `under '${prefix}' ` : ''}in ${storage.location}`;
+
+    let objects: StoredObject[];
+    try {
+      objects = await storage.listObjects(prefix);
+    } catch (err) {
+      return toolError('STORAGE_ERROR', `Error listing objects ${scope}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+
+    // Soft deleted vehicles keep their files so they can be restored
+    const { data: vehicles, error } = await findAllVehicles(repository, {
+      deleted: 'include',
+      columns: RECONCILE_COLUMNS,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${error.message}`);
+    }
+
+    const selectedTypes: readonly StorageIssueType[] = types || STORAGE_ISSUE_TYPES;
+    const issues = findStorageIssues(objects, vehicles).filter(issue => selectedTypes.includes(issue.type));
+
+    // An empty listing more likely means a wrong bucket or endpoint than a bucket without any video
+    const dangling = issues.filter(issue => issue.type === 'dangling_url').length;
+    if (!dryRun && objects.length === 0 && dangling > 0) {
+      return toolError('STORAGE_ERROR', `No objects found ${scope}, so the cleanup would clear ${dangling} ai_video URL(s). Check the storage settings. If the storage really is empty, clear the URLs with delete-ai-videos instead.`, { dangling });
+    }
+
+    const audit = !dryRun && issues.length > 0
+      ? (await cleanStorageIssues(repository, storage, issues)).audit
+      : { success: true };
+
+    const counts = Object.fromEntries(selectedTypes.map(type => [type, issues.filter(issue => issue.type === type).length]));
+    const cleaned = issues.filter(issue => issue.status === 'done').length;
+    const failed = issues.filter(issue => issue.status === 'failed').length;
+
+    const scanned = `Scanned ${objects.length} object(s) ${scope} and ${vehicles.length} vehicle(s).`;
+    const result = {
+      dryRun,
+      scannedObjects: objects.length,
+      scannedVehicles: vehicles.length,
+      counts,
+      cleaned,
+      failed,
+      issues,
+    };
+
+    if (issues.length === 0) {
+      return toolSuccess(`✅ Storage and database are in sync. ${scanned}`, result);
+    }
+
+    const sections = selectedTypes
+      .filter(type => counts[type] > 0)
+      .map(type => {
+        const ofType = issues.filter(issue => issue.type === type);
+        const lines = ofType.slice(0, MAX_LISTED_ISSUES).map(issue => {
+          const vehicle = issue.vehicle
+            ? `${issue.vehicle.year || ''} ${issue.vehicle.make || ''} ${issue.vehicle.model || ''}`.trim() +
+              ` (ID: ${issue.vehicle.id}, Stock Number: ${issue.vehicle.stock_number || 'N/A'}): `
+            : `${issue.objectKey}: `;
+          return `   ${STATUS_ICONS[issue.status]} ${vehicle}${issue.detail}${issue.error ? ` — ${issue.error}` : ''}`;
+        });
+        if (ofType.length > MAX_LISTED_ISSUES) {
+          lines.push(`   ... and ${ofType.length - MAX_LISTED_ISSUES} more`);
+        }
+        return `${TYPE_LABELS[type]}: ${ofType.length}\n${lines.join('\n')}`;
+      })
+      .join('\n\n');
+
+    const planned = issues.filter(issue => issue.status === 'planned').length;
+    const summary = dryRun
+      ? `🔍 Found ${issues.length} issue(s). ${scanned} Nothing has been changed.`
+      : `Found ${issues.length} issue(s) and fixed ${cleaned}${failed > 0 ? `, ${failed} failed` : ''}. ${scanned}`;
+    const hint = dryRun && planned > 0
+      ? `\n\nTo clean up the ${planned} fixable issue(s), call reconcile-storage again with dryRun: false.`
+      : '';
+    const manual = counts.mismatched_key > 0
+      ? `\n\nMismatched keys are never changed automatically: fix the ai_video URL or move the file.`
+      : '';
+
+    return toolSuccess(`${summary}\n\n${sections}${hint}${manual}${auditWarning(audit)}`, result);
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
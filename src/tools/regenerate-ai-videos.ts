@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { vehicleFilterSchema, hasFilters } from "../lib/vehicle-filters";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository, findAllVehicles } from "../lib/repository";
+import { auditWarning } from "../lib/audit";
+import { getMediaStorage, storageNotConfiguredError } from "../lib/storage";
+import { issueConfirmationToken, verifyConfirmationToken, CONFIRMATION_TOKEN_TTL_MS } from "../lib/confirmation";
+import {
+  AI_VIDEO_COLUMNS,
+  aiVideoKey,
+  removeAiVideos,
+  formatAiVideoResults,
+} from "../lib/ai-video";
+
+export const schema = {
+  // Same filters as get-vehicles, including aiVideoStatus
+  ...vehicleFilterSchema,
+
+  // Preview and confirmation
+  dryRun: z.boolean().optional().describe("Only preview which vehicles would be queued. Without a confirmationToken the tool always previews first"),
+  confirmationToken: z.string().optional().describe("Token returned by the preview. Pass it back with the same filters to queue the regeneration"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "regenerate-ai-videos",
+  description: `Queue new AI videos for all active vehicles matching the get-vehicles filters (make, model, year range, aiVideoStatus, ...), e.g. aiVideoStatus 'missing' for cars without a video. An existing video is deleted from the media storage (Cloudflare R2) and ai_video set to null; the next video batch then generates a new one. First returns a preview with a confirmationToken; call again with the same filters and that token (valid ${CONFIRMATION_TOKEN_TTL_MS / 60000} minutes) to queue. Reports success or failure per vehicle`,
+  annotations: {
+    title: "Regenerate AI Videos",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+  },
+};
+
+export default async function regenerateAiVideos({
+  dryRun,
+  confirmationToken,
+  ...filters
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if (!hasFilters(filters)) {
+      return toolError('INVALID_INPUT', `Please specify at least one filter (make, model, year, aiVideoStatus, ...) to select the vehicles whose videos to regenerate.`);
+    }
+
+    const { data: matchedRows, error } = await findAllVehicles(repository, { filters, columns: AI_VIDEO_COLUMNS });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error finding vehicles: ${error.message}`);
+    }
+
+    // Vehicles already queued keep their original request time
+    const rows = matchedRows.filter(row => !row.ai_video_queued_at);
+    const vehicleIds = rows.map(row => row.id);
+
+    if (rows.length === 0) {
+      return toolError('NOT_FOUND', matchedRows.length > 0
+        ? `All ${matchedRows.length} matched vehicle(s) are already queued for regeneration.`
+        : `No vehicles found matching the specified criteria.`);
+    }
+
+    const storage = getMediaStorage();
+    if (!storage && rows.some(row => row.ai_video)) {
+      return storageNotConfiguredError('the current video files cannot be deleted');
+    }
+
+    const confirmationSubject = { scope: 'regenerate-ai-videos', vehicleIds, changes: { ai_video: null, ai_video_queued_at: 'now' } };
+
+    if (dryRun || !confirmationToken) {
+      const preview = rows.map(row => ({
+        vehicle: toVehicleSummary(row),
+        ai_video: row.ai_video ?? null,
+        objectKey: row.ai_video ? aiVideoKey(row) : null,
+      }));
+      const confirmation = issueConfirmationToken(confirmationSubject);
+
+      const previewList = preview.map(({ vehicle, ai_video, objectKey }, i) =>
+        `${i + 1}. ${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim() +
+        ` (ID: ${vehicle.id}, Stock Number: ${vehicle.stock_number || 'N/A'})\n` +
+        `   ${ai_video ? `Current video: ${ai_video}\n   File to delete: ${objectKey || 'unknown (missing values for the key template)'}` : 'No video yet'}`
+      ).join('\n');
+
+      return toolSuccess(
+        `🔍 Preview: ${preview.length} vehicle(s) would be queued for a new AI video. Nothing has been changed yet.\n\n${previewList}\n\n` +
+        `To apply, call regenerate-ai-videos again with the same filters and confirmationToken: "${confirmation.token}" (expires ${new Date(confirmation.expiresAt).toLocaleString()}).`,
+        {
+          mode: 'preview' as const,
+          count: preview.length,
+          vehicleIds,
+          succeeded: 0,
+          failed: 0,
+          results: [],
+          preview,
+          confirmationToken: confirmation.token,
+          expiresAt: confirmation.expiresAt,
+        }
+      );
+    }
+
+    const verification = verifyConfirmationToken(confirmationToken, confirmationSubject);
+    if (!verification.valid) {
+      return toolError('CONFIRMATION_INVALID', verification.error, { vehicleIds });
+    }
+
+    const { results, audit } = await removeAiVideos(repository, storage, rows, 'regenerate');
+    const failed = results.filter(result => result.status === 'failed').length;
+
+    return toolSuccess(
+      `Queued ${results.length - failed} of ${results.length} vehicle(s) for a new AI video` +
+      `${failed > 0 ? `, ${failed} failed and left unchanged (run again to retry)` : ''}.\n\n` +
+      `${formatAiVideoResults(results)}\n\nThe next video batch generates the queued videos.${auditWarning(audit)}`,
+      {
+        mode: 'applied' as const,
+        count: results.length,
+        vehicleIds,
+        succeeded: results.length - failed,
+        failed,
+        results,
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { diffColumns, recordAudit, auditWarning } from "../lib/audit";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, describeIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { unsuppressVin } from "../lib/vin-suppression";
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("Restore vehicle by specific ID"),
+  vin: z.string().optional().describe("Restore vehicle by VIN number"),
+  stockNumber: z.string().optional().describe("Restore vehicle by stock number"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "restore-vehicle",
+  description: "Restore a soft-deleted vehicle from the trash by ID, VIN or stock number, keeping its notes, custom price and AI description. Its VIN is removed from the suppression list so the vAuto import updates it again",
+  annotations: {
+    title: "Restore Vehicle",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function restoreVehicle({
+  id,
+  vin,
+  stockNumber,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    // Find the vehicle - only vehicles in the trash
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      deleted: 'only',
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'deleted_at', 'deletion_reason'],
+      notFoundMessage: `No deleted vehicle found with ${describeIdentifier({ id, vin, stockNumber })}. Use list-deleted-vehicles to see the trash.`,
+      ambiguousMessage: `Multiple deleted vehicles found with the same identifier. Restore by 'id' instead.`,
+    });
+
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle;
+    const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+
+    // Refuse to restore on top of an active vehicle with the same VIN or stock number
+    const { data: activeVehicles, error: conflictError } = await repository.findVehiclesByVinOrStockNumber(
+      { vin: vehicle.vin, stockNumber: vehicle.stock_number },
+      { columns: ['id'] }
+    );
+
+    if (conflictError) {
+      return toolError('DATABASE_ERROR', `Error checking for active duplicates: ${conflictError.message}`);
+    }
+
+    if (activeVehicles.length > 0) {
+      return toolError(
+        'CONFLICT',
+        `An active vehicle with the same VIN or stock number already exists (ID: ${activeVehicles.map(v => v.id).join(', ')}). It was probably re-added by the vAuto sync.`,
+        { vehicleId: vehicle.id, conflictingVehicleIds: activeVehicles.map(v => v.id) }
+      );
+    }
+
+    const { data: restoredVehicles, error: updateError } = await repository.updateVehicles(
+      [vehicle.id],
+      {
+        deleted_at: null,
+        deletion_reason: null,
+        updated_at: new Date().toISOString(),
+      },
+      { columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number'] }
+    );
+
+    if (updateError || restoredVehicles.length !== 1) {
+      return toolError('DATABASE_ERROR', `Error restoring vehicle: ${updateError?.message || 'vehicle was not updated'}`, { vehicleId: vehicle.id });
+    }
+
+    const restoredVehicle = restoredVehicles[0];
+
+    // The vehicle is wanted again, so the vAuto import may update it
+    let vinUnsuppressed = false;
+    let suppressionWarning = '';
+    if (restoredVehicle.vin) {
+      const { data: removed, error: unsuppressError } = await unsuppressVin(repository, restoredVehicle.vin);
+
+      if (unsuppressError) {
+        suppressionWarning = `\n\n⚠️  Warning: The vehicle was restored but its VIN could not be removed from the suppression list: ${unsuppressError.message}`;
+      } else {
+        vinUnsuppressed = removed !== null;
+      }
+    }
+
+    const audit = await recordAudit(repository, {
+      tool: 'restore-vehicle',
+      changes: {
+        [vehicle.id]: diffColumns(vehicle, { deleted_at: null, deletion_reason: null }, ['deleted_at', 'deletion_reason']),
+      },
+    });
+
+    return toolSuccess(
+      `Successfully restored vehicle:\n\n` +
+      `Vehicle: ${vehicleInfo}\n` +
+      `ID: ${restoredVehicle.id}\n` +
+      `VIN: ${restoredVehicle.vin || 'N/A'}\n` +
+      `Stock Number: ${restoredVehicle.stock_number || 'N/A'}\n` +
+      `Was deleted: ${new Date(vehicle.deleted_at).toLocaleString()}${vehicle.deletion_reason ? ` (${vehicle.deletion_reason})` : ''}` +
+      (vinUnsuppressed ? `\n\nThe VIN was removed from the suppression list.` : '') +
+      suppressionWarning +
+      auditWarning(audit),
+      {
+        restored: true,
+        vehicleId: restoredVehicle.id,
+        previousDeletedAt: vehicle.deleted_at,
+        previousDeletionReason: vehicle.deletion_reason ?? null,
+        vinUnsuppressed,
+        vehicle: toVehicleSummary(restoredVehicle),
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
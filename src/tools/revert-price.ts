@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { diffColumns, recordAudit, auditWarning } from "../lib/audit";
+import { getRepository } from "../lib/repository";
+import { addLockedFields, getLockedFields, isLockable, sameFields } from "../lib/field-locks";
+import {
+  syncPriceHistory,
+  recordPriceChanges,
+  type PriceField,
+} from "../lib/price-history";
+
+export const schema = {
+  historyEntryId: z.number().describe("ID of the price history entry (from get-price-history)"),
+  value: z.enum(['before', 'after']).optional().describe("Restore the value from before this change (default, undoes it) or the value it set"),
+  lockFields: z.boolean().optional().describe("Lock the restored price so the vAuto import keeps it (default true). Set to false for a change the next import may overwrite"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "revert-price",
+  description: "Restore a vehicle's price or custom_price to a previous value, chosen by price history entry (see get-price-history). By default undoes the change the entry recorded",
+  annotations: {
+    title: "Revert Price",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+function formatPrice(value: number | null): string {
+  return value === null ? '(none)' : `$${value.toLocaleString()}`;
+}
+
+export default async function revertPrice({
+  historyEntryId,
+  value,
+  lockFields,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const { data: entry, error: entryError } = await repository.getPriceHistoryEntry(historyEntryId);
+
+    if (entryError) {
+      return toolError('DATABASE_ERROR', `Error finding price history entry: ${entryError.message}`);
+    }
+
+    if (!entry) {
+      return toolError('NOT_FOUND', `No price history entry found with ID: ${historyEntryId}.`);
+    }
+
+    const field: PriceField = entry.field;
+    const targetValue = value === 'after' ? entry.new_value : entry.old_value;
+
+    const { data: vehicles, error: selectError } = await repository.findVehicles({
+      id: entry.vehicle_id,
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'locked_fields', field],
+    });
+
+    if (selectError) {
+      return toolError('DATABASE_ERROR', `Error finding vehicle: ${selectError.message}`);
+    }
+
+    if (vehicles.length === 0) {
+      return toolError('NOT_FOUND', `Vehicle ${entry.vehicle_id} from history entry ${historyEntryId} no longer exists or is deleted.`);
+    }
+
+    const current = vehicles[0];
+    const vehicleInfo = `${current.year || ''} ${current.make || ''} ${current.model || ''}`.trim();
+    const currentValue = current[field] === null ? null : Number(current[field]);
+
+    // Make sure a pending vAuto change is in the timeline before reverting over it
+    await syncPriceHistory(repository, [current]);
+
+    const result = {
+      vehicleId: current.id as number,
+      field,
+      previousValue: currentValue,
+      restoredValue: targetValue,
+      historyEntryId,
+      vehicle: toVehicleSummary(current),
+    };
+
+    if (currentValue === targetValue) {
+      return toolSuccess(
+        `${vehicleInfo} (ID: ${current.id}) already has ${field} ${formatPrice(targetValue)}. Nothing to revert.`,
+        result
+      );
+    }
+
+    // Manual edits of vAuto fields are locked so the next import keeps them, as with update-vehicles
+    const lockedFields = lockFields === false || !isLockable(field) ? [] : [field];
+    const locks = addLockedFields(current, lockedFields);
+    const changedColumns = sameFields(locks, getLockedFields(current)) ? [field] : [field, 'locked_fields'];
+
+    const { data: updatedVehicles, error: updateError } = await repository.updateVehicles(
+      [current.id],
+      {
+        [field]: targetValue,
+        ...(changedColumns.includes('locked_fields') ? { locked_fields: locks } : {}),
+        updated_at: new Date().toISOString(),
+      },
+      { columns: ['id', ...changedColumns] }
+    );
+
+    if (updateError || updatedVehicles.length !== 1) {
+      return toolError('DATABASE_ERROR', `Error reverting price: ${updateError?.message || 'vehicle was not updated'}`, { vehicleId: current.id });
+    }
+
+    await recordPriceChanges(repository, {
+      source: 'revert-price',
+      changes: [{ vehicleId: current.id, field, oldValue: currentValue, newValue: targetValue }],
+    });
+
+    const audit = await recordAudit(repository, {
+      tool: 'revert-price',
+      changes: { [current.id]: diffColumns(current, updatedVehicles[0], changedColumns) },
+    });
+
+    const lockNotice = lockedFields.length > 0
+      ? `\n\n🔒 Locked against the vAuto import: ${lockedFields.join(', ')}. Use unlock-fields to let the feed update it again.`
+      : '';
+
+    return toolSuccess(
+      `Successfully reverted ${field} for vehicle:\n\n` +
+      `Vehicle: ${vehicleInfo}\n` +
+      `ID: ${current.id}\n` +
+      `VIN: ${current.vin || 'N/A'}\n` +
+      `${field}: ${formatPrice(currentValue)} → ${formatPrice(targetValue)} (from history entry #${historyEntryId})` +
+      lockNotice +
+      auditWarning(audit),
+      { ...result, lockedFields }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { getRepository } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { NOTE_CATEGORIES, formatNote } from "../lib/vehicle-notes";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginationSchema,
+  queryFingerprint,
+  resolveOffset,
+  buildPageInfo,
+} from "../lib/pagination";
+
+export const schema = {
+  query: z.string().optional().describe(`Words to search for in the note text. Every word must match; use "quotes" for an exact phrase and -word to exclude (e.g. 'test drive', '"trade in" -declined')`),
+  category: z.enum(NOTE_CATEGORIES).optional().describe("Only notes in this category"),
+  author: z.string().optional().describe("Only notes written by this API key name"),
+  since: z.string().optional().describe("Only notes written at or after this date (ISO 8601)"),
+  until: z.string().optional().describe("Only notes written at or before this date (ISO 8601)"),
+
+  // Pagination
+  ...paginationSchema,
+};
+
+export const metadata: ToolMetadata = {
+  name: "search-notes",
+  description: `Search the notes of all vehicles by text, category (pricing, condition, customer), author and date, e.g. every customer note mentioning "deposit" this week. Results are the matching notes, newest first, with their vehicle, ${DEFAULT_PAGE_SIZE} per page by default. Without criteria, lists the most recent notes`,
+  annotations: {
+    title: "Search Notes",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function searchNotes({
+  query,
+  category,
+  author,
+  since,
+  until,
+  pageSize,
+  page,
+  cursor,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    for (const [name, value] of [['since', since], ['until', until]] as const) {
+      if (value && isNaN(Date.parse(value))) {
+        return toolError('INVALID_INPUT', `Invalid '${name}' date: ${value}. Use ISO 8601, e.g. 2025-01-31.`);
+      }
+    }
+
+    const text = query?.trim() || undefined;
+
+    // Resolve the page window; cursors are tied to the criteria they were issued for
+    const size = Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const fingerprint = queryFingerprint({ query: text, category, author, since, until });
+    const pageWindow = resolveOffset({ page, cursor }, size, fingerprint);
+
+    if ('error' in pageWindow) {
+      return toolError('INVALID_INPUT', pageWindow.error);
+    }
+
+    const { data, error, count } = await repository.findNotes({
+      text,
+      category,
+      author,
+      since,
+      until,
+      offset: pageWindow.offset,
+      limit: size,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error searching notes: ${error.message}`);
+    }
+
+    const pagination = buildPageInfo(count, pageWindow.offset, size, fingerprint);
+
+    if (data.length === 0) {
+      const message = pagination.total > 0
+        ? `No results on page ${pagination.page}. ${pagination.total} note(s) match (${pagination.totalPages} page(s)).`
+        : `No notes found matching the specified criteria.`;
+      return toolSuccess(message, { count: 0, notes: [], pagination });
+    }
+
+    // Notes of vehicles in the trash are kept, so include them
+    const vehicleIds = [...new Set(data.map(note => note.vehicle_id))];
+    const { data: vehicles, error: vehiclesError } = await repository.findVehicles({
+      ids: vehicleIds,
+      deleted: 'include',
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'deleted_at'],
+    });
+
+    if (vehiclesError) {
+      return toolError('DATABASE_ERROR', `Error fetching vehicles: ${vehiclesError.message}`);
+    }
+
+    const vehiclesById = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+    const notes = data.map(note => {
+      const vehicle = vehiclesById.get(note.vehicle_id);
+      return {
+        ...note,
+        vehicle: vehicle ? toVehicleSummary(vehicle) : null,
+        vehicleDeleted: !!vehicle?.deleted_at,
+      };
+    });
+
+    const noteList = notes.map(({ vehicle: v, vehicleDeleted, ...note }, i) => {
+      const vehicleLine = v
+        ? `${v.year || ''} ${v.make || ''} ${v.model || ''}`.trim() + ` (ID: ${v.id}, Stock Number: ${v.stock_number || 'N/A'})${vehicleDeleted ? ' [in trash]' : ''}`
+        : `Vehicle ${note.vehicle_id} (no longer exists)`;
+      return `${pageWindow.offset + i + 1}. ${vehicleLine}\n   ${formatNote(note).replace(/\n/g, '\n   ')}`;
+    }).join('\n\n');
+
+    const nextPageHint = pagination.hasMore
+      ? `\n\n➡️  More results available: call search-notes again with the same criteria and cursor "${pagination.nextCursor}" (or page: ${pagination.nextPage}).`
+      : '';
+
+    return toolSuccess(
+      `Found ${pagination.total} note(s)${text ? ` matching "${text}"` : ''} (page ${pagination.page} of ${pagination.totalPages}), newest first:\n\n${noteList}${nextPageHint}`,
+      { count: notes.length, notes, pagination }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { vehicleFilterSchema } from "../lib/vehicle-filters";
+import { getRepository } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { SEARCH_FIELDS } from "../lib/text-search";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginationSchema,
+  queryFingerprint,
+  resolveOffset,
+  buildPageInfo,
+} from "../lib/pagination";
+
+// Columns returned for each result; get-vehicle has the full record
+const RESULT_COLUMNS = ['id', 'year', 'make', 'model', 'series', 'vin', 'stock_number', 'price', 'custom_price', 'odometer', 'colour'];
+
+export const schema = {
+  query: z.string().min(1).describe(`Words to search for in ${SEARCH_FIELDS.join(', ')}. Every word must match; use "quotes" for an exact phrase and -word to exclude (e.g. 'carbon ceramic brakes', '"Sport Chrono" -cabriolet')`),
+
+  // Optional structured filter - same as get-vehicles
+  ...vehicleFilterSchema,
+
+  // Pagination
+  ...paginationSchema,
+};
+
+export const metadata: ToolMetadata = {
+  name: "search-vehicles",
+  description: `Full-text search of active vehicles in the SportcarsLux database across descriptions, AI descriptions, features, notes, tags, series detail and engine, e.g. "carbon ceramic brakes" or "Sport Chrono". Results are ordered by relevance with a highlighted snippet of where the words matched, ${DEFAULT_PAGE_SIZE} per page by default. Accepts the same filters as get-vehicles (make, model, year range, price range, ...) to narrow the search`,
+  annotations: {
+    title: "Search Vehicles",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function searchVehicles({
+  query,
+  pageSize,
+  page,
+  cursor,
+  ...filters
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    if (!query.trim()) {
+      return toolError('INVALID_INPUT', `Please provide the words to search for in 'query'.`);
+    }
+
+    // Resolve the page window; cursors are tied to the query and filters they were issued for
+    const size = Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const fingerprint = queryFingerprint({ ...filters, query });
+    const pageWindow = resolveOffset({ page, cursor }, size, fingerprint);
+
+    if ('error' in pageWindow) {
+      return toolError('INVALID_INPUT', pageWindow.error);
+    }
+
+    const { data, error, count } = await repository.searchVehicles({
+      query,
+      filters,
+      columns: RESULT_COLUMNS,
+      offset: pageWindow.offset,
+      limit: size,
+    });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error searching vehicles: ${error.message}`);
+    }
+
+    const pagination = buildPageInfo(count, pageWindow.offset, size, fingerprint);
+
+    if (data.length === 0) {
+      const message = pagination.total > 0
+        ? `No results on page ${pagination.page}. ${pagination.total} vehicle(s) match "${query}" (${pagination.totalPages} page(s)).`
+        : `No vehicles found matching "${query}".`;
+      return toolSuccess(message, { count: 0, results: [], pagination });
+    }
+
+    const results = data.map(hit => ({
+      vehicle: {
+        ...toVehicleSummary(hit.vehicle),
+        series: hit.vehicle.series ?? null,
+        price: hit.vehicle.price ?? null,
+        custom_price: hit.vehicle.custom_price ?? null,
+        odometer: hit.vehicle.odometer ?? null,
+        colour: hit.vehicle.colour ?? null,
+      },
+      rank: hit.rank,
+      snippet: hit.snippet,
+      matchedFields: hit.matchedFields,
+    }));
+
+    const resultList = results.map(({ vehicle: v, rank, snippet, matchedFields }, i) => {
+      const price = v.custom_price ?? v.price;
+      const lines = [
+        `${pageWindow.offset + i + 1}. ${[v.year, v.make, v.model, v.series].filter(Boolean).join(' ')} (ID: ${v.id}, VIN: ${v.vin || 'N/A'}, Stock: ${v.stock_number || 'N/A'})`,
+        `   ${price !== null && price !== undefined ? `$${price.toLocaleString()}` : 'No price'}${v.odometer !== null && v.odometer !== undefined ? ` | ${v.odometer.toLocaleString()} miles` : ''} | Relevance: ${rank.toFixed(3)}`,
+      ];
+      if (matchedFields.length > 0) lines.push(`   Matched in: ${matchedFields.join(', ')}`);
+      if (snippet) lines.push(`   "${snippet}"`);
+      return lines.join('\n');
+    }).join('\n\n');
+
+    const first = pageWindow.offset + 1;
+    const last = pageWindow.offset + results.length;
+    const nextPageHint = pagination.hasMore
+      ? `\n\n➡️  More results available: call search-vehicles again with the same query and filters and cursor "${pagination.nextCursor}" (or page: ${pagination.nextPage}).`
+      : '';
+
+    return toolSuccess(
+      `Found ${pagination.total} vehicle(s) matching "${query}". Showing ${first}-${last} (page ${pagination.page} of ${pagination.totalPages}), most relevant first:\n\n${resultList}${nextPageHint}`,
+      { count: results.length, results, pagination }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
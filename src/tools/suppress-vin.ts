@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { suppressVin } from "../lib/vin-suppression";
+import { normalizeVin, checkVin, describeVinProblems } from "../lib/vin";
+
+export const schema = {
+  vin: z.string().describe("VIN the vAuto import must skip"),
+  reason: z.string().optional().describe("Why the VIN is suppressed, e.g. 'sold privately'"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "suppress-vin",
+  description: "Add a VIN to the suppression list. The vAuto import then neither adds, updates nor restores a vehicle with this VIN, even while it is still in vAuto's inventory. delete-vehicle suppresses the VIN of the deleted vehicle automatically. Use unsuppress-vin to undo",
+  annotations: {
+    title: "Suppress VIN",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function suppressVinTool({
+  vin,
+  reason,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const normalizedVin = normalizeVin(vin);
+    if (!normalizedVin) {
+      return toolError('INVALID_INPUT', `Please provide the 'vin' to suppress.`);
+    }
+
+    const { data: suppression, error } = await suppressVin(repository, { vin: normalizedVin, reason });
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error suppressing VIN: ${error.message}`, { vin: normalizedVin });
+    }
+
+    // A suppressed VIN may still belong to a vehicle in the inventory
+    const { data: activeVehicles, error: findError } = await repository.findVehiclesByVinOrStockNumber(
+      { vin: normalizedVin },
+      { columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number'] }
+    );
+
+    if (findError) {
+      return toolError('DATABASE_ERROR', `The VIN was suppressed, but active vehicles could not be checked: ${findError.message}`, { vin: normalizedVin });
+    }
+
+    const vinCheck = checkVin(normalizedVin);
+    const vinNotice = vinCheck.valid
+      ? ''
+      : `\n\n⚠️  ${describeVinProblems(vinCheck)} It only takes effect if the feed carries this exact VIN.`;
+
+    const activeNotice = activeVehicles.length > 0
+      ? `\n\n⚠️  ${activeVehicles.length} active vehicle(s) with this VIN stay in the inventory but will no longer be updated by the import. Use delete-vehicle to remove them.`
+      : '';
+
+    return toolSuccess(
+      `🚫 VIN ${normalizedVin} added to the suppression list${suppression.reason ? ` (${suppression.reason})` : ''}. The vAuto import will skip it.${activeNotice}${vinNotice}`,
+      {
+        suppression,
+        activeVehicles: activeVehicles.map(toVehicleSummary),
+        vinCheck,
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
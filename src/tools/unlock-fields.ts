@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toVehicleSummary } from "../lib/vehicle";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { validateIdentifier, findVehicle } from "../lib/vehicle-lookup";
+import { diffColumns, recordAudit, auditWarning } from "../lib/audit";
+import { LOCKABLE_FIELDS, getLockedFields, removeLockedFields } from "../lib/field-locks";
+
+export const schema = {
+  // Identification - exactly one required
+  id: z.number().optional().describe("Unlock fields of the vehicle with this ID"),
+  vin: z.string().optional().describe("Unlock fields of the vehicle with this VIN"),
+  stockNumber: z.string().optional().describe("Unlock fields of the vehicle with this stock number"),
+
+  fields: z.array(z.enum(LOCKABLE_FIELDS)).optional().describe("Fields to unlock (default: all locked fields)"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "unlock-fields",
+  description: "Unlock fields of a vehicle so the next vAuto import updates them from the feed again. Unlocks all locked fields when 'fields' is omitted",
+  annotations: {
+    title: "Unlock Vehicle Fields",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function unlockFields({
+  id,
+  vin,
+  stockNumber,
+  fields,
+}: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    // Validate that exactly one identifier is provided
+    const identifierError = validateIdentifier({ id, vin, stockNumber });
+    if (identifierError) {
+      return identifierError;
+    }
+
+    const found = await findVehicle(repository, { id, vin, stockNumber }, {
+      columns: ['id', 'year', 'make', 'model', 'vin', 'stock_number', 'locked_fields'],
+    });
+
+    if (found.error) {
+      return found.error;
+    }
+
+    const vehicle = found.vehicle;
+    const vehicleInfo = `${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''}`.trim();
+    const currentLocks = getLockedFields(vehicle);
+    const lockedFields = removeLockedFields(vehicle, fields);
+    const removed = currentLocks.filter(field => !lockedFields.includes(field));
+
+    if (removed.length > 0) {
+      const { error: updateError } = await repository.updateVehicles([vehicle.id], {
+        locked_fields: lockedFields,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (updateError) {
+        return toolError('DATABASE_ERROR', `Error unlocking fields: ${updateError.message}`, { vehicleId: vehicle.id });
+      }
+    }
+
+    // Nothing is recorded when the locks did not change
+    const audit = await recordAudit(repository, {
+      tool: 'unlock-fields',
+      changes: { [vehicle.id]: diffColumns(vehicle, { locked_fields: lockedFields }, ['locked_fields']) },
+    });
+
+    return toolSuccess(
+      `${removed.length > 0 ? `🔓 Unlocked ${removed.join(', ')}` : 'None of the requested fields was locked'} for vehicle:\n\n` +
+      `Vehicle: ${vehicleInfo}\n` +
+      `ID: ${vehicle.id}\n` +
+      `VIN: ${vehicle.vin || 'N/A'}\n` +
+      `Still locked: ${lockedFields.length > 0 ? lockedFields.join(', ') : 'none'}\n\n` +
+      `The next vAuto import will update the unlocked fields from the feed.${auditWarning(audit)}`,
+      {
+        vehicleId: vehicle.id,
+        removed,
+        lockedFields,
+        vehicle: toVehicleSummary(vehicle),
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
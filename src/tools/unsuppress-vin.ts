@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { type InferSchema, type ToolMetadata } from "xmcp";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { getRepository } from "../lib/repository";
+import { unsuppressVin } from "../lib/vin-suppression";
+import { normalizeVin } from "../lib/vin";
+
+export const schema = {
+  vin: z.string().describe("VIN to remove from the suppression list"),
+};
+
+export const metadata: ToolMetadata = {
+  name: "unsuppress-vin",
+  description: "Remove a VIN from the suppression list so the next vAuto import adds, updates or restores its vehicle again",
+  annotations: {
+    title: "Unsuppress VIN",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
+
+export default async function unsuppressVinTool({ vin }: InferSchema<typeof schema>) {
+  try {
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
+    }
+
+    const normalizedVin = normalizeVin(vin);
+    if (!normalizedVin) {
+      return toolError('INVALID_INPUT', `Please provide the 'vin' to remove from the suppression list.`);
+    }
+
+    const { data: suppression, error } = await unsuppressVin(repository, normalizedVin);
+
+    if (error) {
+      return toolError('DATABASE_ERROR', `Error removing VIN from the suppression list: ${error.message}`, { vin: normalizedVin });
+    }
+
+    return toolSuccess(
+      suppression
+        ? `VIN ${normalizedVin} removed from the suppression list. The next vAuto import will pick it up again.`
+        : `VIN ${normalizedVin} was not on the suppression list.`,
+      {
+        removed: suppression !== null,
+        suppression,
+      }
+    );
+
+  } catch (err) {
+    return unexpectedError(err);
+  }
+}
@@ -1,17 +1,26 @@
 import { z } from "zod";
 import { type InferSchema, type ToolMetadata } from "xmcp";
-import { createClient } from '@supabase/supabase-js';
+import { toVehicleSummary } from "../lib/vehicle";
+import { vehicleFilterSchema, hasFilters } from "../lib/vehicle-filters";
+import { getRepository, findAllVehicles } from "../lib/repository";
+import { toolError, toolSuccess, missingCredentialsError, unexpectedError } from "../lib/tool-result";
+import { diffColumns, recordAudit, auditWarning, type AuditChanges } from "../lib/audit";
+import { syncPriceHistory, diffPrices, recordPriceChanges } from "../lib/price-history";
+import { priceAdjustmentSchema, adjustPrice, describeAdjustment } from "../lib/price-adjustment";
+import { addLockedFields, getLockedFields, isLockable, sameFields } from "../lib/field-locks";
+import { normalizeIdentifier, hasIdentifier, validateIdentifier, vehicleNotFoundError } from "../lib/vehicle-lookup";
+import { issueConfirmationToken, verifyConfirmationToken, CONFIRMATION_TOKEN_TTL_MS } from "../lib/confirmation";
+import { validateTagList, formatTags } from "../lib/vehicle-tags";
 
 export const schema = {
   // Identification - at least one required
   id: z.number().optional().describe("Update vehicle by specific ID"),
   vin: z.string().optional().describe("Update vehicle by VIN number"),
   stockNumber: z.string().optional().describe("Update vehicle by stock number"),
-  
-  // Filters to update multiple vehicles
-  make: z.string().optional().describe("Update all vehicles of this make/brand"),
-  model: z.string().optional().describe("Update all vehicles of this model"),
-  
+
+  // Filters to update multiple vehicles - same as get-vehicles
+  ...vehicleFilterSchema,
+
   // Fields to update
   price: z.number().optional().describe("New price value"),
   customPrice: z.number().optional().describe("New custom price (overrides regular price)"),
@@ -23,13 +32,23 @@ export const schema = {
   newUsed: z.string().optional().describe("Update condition: 'New' or 'Used'"),
   certified: z.string().optional().describe("Update certified status"),
   dealerName: z.string().optional().describe("Update dealer name"),
-  tags: z.string().optional().describe("Update tags"),
+  tags: z.string().optional().describe("Replace all tags with this comma-separated list. Use add-tags or remove-tags to change single tags"),
   inventoryDate: z.string().optional().describe("Update inventory date"),
+
+  // Relative price adjustments, applied per vehicle to its current value
+  ...priceAdjustmentSchema,
+
+  // Field locks
+  lockFields: z.boolean().optional().describe("Lock the changed vAuto fields (price, colour, description, odometer, ...) so the vAuto import keeps the new values (default true). Set to false for a change the next import may overwrite"),
+
+  // Preview and confirmation
+  dryRun: z.boolean().optional().describe("Only preview which vehicles would change, with current and proposed values. Bulk updates (filters instead of id/vin/stockNumber) always preview first"),
+  confirmationToken: z.string().optional().describe("Token returned by the preview of a bulk update. Pass it back with the same filters and fields to apply the update"),
 };
 
 export const metadata: ToolMetadata = {
   name: "update-vehicles",
-  description: "Update one or multiple vehicles in the SportcarsLux database",
+  description: `Update one or multiple vehicles in the SportcarsLux database. Set absolute values, or adjust each vehicle's price relative to its own current value (adjustPercent/adjustAmount, with optional rounding). Updates by id, vin or stockNumber are applied immediately. Bulk updates selected with the get-vehicles filters (make, model, year range, age, price range, newUsed, ...) first return a preview of the matched vehicles with current and proposed values plus a confirmationToken; call again with the same arguments and that token (valid ${CONFIRMATION_TOKEN_TTL_MS / 60000} minutes) to apply`,
   annotations: {
     title: "Update Vehicles",
     readOnlyHint: false,
@@ -38,12 +57,17 @@ export const metadata: ToolMetadata = {
   },
 };
 
+function formatValue(column: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  if (typeof value === 'number' && (column === 'price' || column === 'custom_price')) return `$${value.toLocaleString()}`;
+  return String(value);
+}
+
 export default async function updateVehicles({
   id,
   vin,
   stockNumber,
-  make,
-  model,
   price,
   customPrice,
   colour,
@@ -56,20 +80,25 @@ export default async function updateVehicles({
   dealerName,
   tags,
   inventoryDate,
+  adjustPercent,
+  adjustAmount,
+  adjustField,
+  rounding,
+  lockFields,
+  dryRun,
+  confirmationToken,
+  ...filters
 }: InferSchema<typeof schema>) {
   try {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      return `Error: Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env file`;
+    const repository = getRepository();
+
+    if (!repository) {
+      return missingCredentialsError();
     }
 
     // Build the update object with only provided fields
-    const updateData: Record<string, any> = {
-      updated_at: new Date().toISOString(),
-    };
-    
+    const updateData: Record<string, any> = {};
+
     if (price !== undefined) updateData.price = price;
     if (customPrice !== undefined) updateData.custom_price = customPrice;
     if (colour !== undefined) updateData.colour = colour;
@@ -80,75 +109,244 @@ export default async function updateVehicles({
     if (newUsed !== undefined) updateData.new_used = newUsed;
     if (certified !== undefined) updateData.certified = certified;
     if (dealerName !== undefined) updateData.dealer_name = dealerName;
-    if (tags !== undefined) updateData.tags = tags;
+    if (tags !== undefined) {
+      const validated = validateTagList(tags);
+      if ('error' in validated) {
+        return toolError('INVALID_INPUT', validated.error);
+      }
+      updateData.tags = formatTags(validated.tags);
+    }
     if (inventoryDate !== undefined) updateData.inventory_date = inventoryDate;
 
-    // Check if there are any fields to update
-    if (Object.keys(updateData).length === 1) {
-      return `Error: No fields provided to update. Please specify at least one field to update.`;
+    // Relative price adjustment
+    const hasAdjustment = adjustPercent !== undefined || adjustAmount !== undefined;
+    const adjustedColumn = adjustField || 'price';
+    const adjustment = { percent: adjustPercent, amount: adjustAmount, rounding };
+
+    if (!hasAdjustment && (adjustField || rounding)) {
+      return toolError('INVALID_INPUT', `'adjustField' and 'rounding' only apply together with 'adjustPercent' or 'adjustAmount'.`);
+    }
+
+    if (hasAdjustment && adjustedColumn in updateData) {
+      return toolError('INVALID_INPUT', `Cannot both set and adjust '${adjustedColumn}' in the same call.`);
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    // Check if there are any fields to update
+    if (Object.keys(updateData).length === 0 && !hasAdjustment) {
+      return toolError('INVALID_INPUT', `No fields provided to update. Please specify at least one field to update.`);
+    }
 
-    // Build the query to find vehicles to update
-    let query = supabase.from('vehicles').select('id, year, make, model, vin').is('deleted_at', null);
+    // An identifier that is blank after normalising must not fall through to a filter update
+    if (hasIdentifier({ id, vin, stockNumber })) {
+      const identifierError = validateIdentifier({ id, vin, stockNumber });
+      if (identifierError) {
+        return identifierError;
+      }
+    }
 
-    // Apply filters to identify which vehicles to update
-    if (id) {
-      query = query.eq('id', id);
-    } else if (vin) {
-      query = query.eq('vin', vin);
-    } else if (stockNumber) {
-      query = query.eq('stock_number', stockNumber);
-    } else if (make || model) {
-      if (make) query = query.ilike('make', `%${make}%`);
-      if (model) query = query.ilike('model', `%${model}%`);
-    } else {
-      return `Error: Please specify at least one identifier (id, vin, stockNumber) or filter (make, model) to identify which vehicle(s) to update.`;
+    const identifier = normalizeIdentifier({ id, vin, stockNumber });
+    const isBulk = !identifier.id && !identifier.vin && !identifier.stockNumber;
+    if (isBulk && !hasFilters(filters)) {
+      return toolError('INVALID_INPUT', `Please specify at least one identifier (id, vin, stockNumber) or filter (make, model, year, age, price range, ...) to identify which vehicle(s) to update.`);
     }
 
-    // First, get the vehicles that match the criteria
-    const { data: vehiclesToUpdate, error: selectError } = await query;
+    // Columns being written, also selected up front for the preview and the audit log's before values
+    const valueColumnNames = [...new Set([...Object.keys(updateData), ...(hasAdjustment ? [adjustedColumn] : [])])];
+
+    // Manual edits of vAuto fields are locked so the next import keeps them
+    const lockedFields = lockFields === false ? [] : valueColumnNames.filter(isLockable);
+    const changedColumnNames = lockedFields.length > 0 ? [...valueColumnNames, 'locked_fields'] : valueColumnNames;
+    const selectColumns = [...new Set(['id', 'year', 'make', 'model', 'vin', 'stock_number', ...changedColumnNames])];
+
+    // First, get the vehicles that match the identifier or filters, in batches so bulk updates are not capped
+    const { data: matchedRows, error: selectError } = await findAllVehicles(repository, {
+      ...(identifier.id ? { id: identifier.id } : identifier.vin ? { vin: identifier.vin } : identifier.stockNumber ? { stockNumber: identifier.stockNumber } : { filters }),
+      columns: selectColumns,
+    });
 
     if (selectError) {
-      return `Error finding vehicles: ${selectError.message}`;
+      return toolError('DATABASE_ERROR', `Error finding vehicles: ${selectError.message}`);
+    }
+
+    if (matchedRows.length === 0) {
+      return isBulk
+        ? toolError('NOT_FOUND', `No vehicles found matching the specified criteria.`)
+        : vehicleNotFoundError(repository, identifier);
+    }
+
+    // Work out the values to write for each vehicle
+    const patches = new Map<number, Record<string, any>>();
+    const skipped: { vehicle: ReturnType<typeof toVehicleSummary>; reason: string }[] = [];
+
+    for (const row of matchedRows) {
+      const patch = { ...updateData };
+      if (hasAdjustment) {
+        const current = row[adjustedColumn];
+        if (current === null || current === undefined) {
+          skipped.push({ vehicle: toVehicleSummary(row), reason: `No current ${adjustedColumn} to adjust` });
+          continue;
+        }
+        patch[adjustedColumn] = adjustPrice(Number(current), adjustment);
+      }
+      const locks = addLockedFields(row, lockedFields);
+      if (!sameFields(locks, getLockedFields(row))) {
+        patch.locked_fields = locks;
+      }
+      patches.set(row.id, patch);
     }
 
-    if (!vehiclesToUpdate || vehiclesToUpdate.length === 0) {
-      return `No vehicles found matching the specified criteria.`;
+    const currentRows = matchedRows.filter(row => patches.has(row.id));
+    const vehicleIds = currentRows.map(v => v.id);
+    const adjustmentLabel = hasAdjustment ? `${adjustedColumn} ${describeAdjustment(adjustment)}` : null;
+    const plannedPriceChanges = diffPrices(currentRows, currentRows.map(row => ({ ...row, ...patches.get(row.id) })));
+
+    if (currentRows.length === 0) {
+      return toolError('NOT_FOUND', `None of the ${matchedRows.length} matched vehicle(s) has a ${adjustedColumn} to adjust.`, {
+        skippedVehicleIds: matchedRows.map(v => v.id),
+      });
     }
 
-    // Extract IDs of vehicles to update
-    const vehicleIds = vehiclesToUpdate.map(v => v.id);
+    // Bulk updates need a confirmation token from a previous preview
+    const confirmationSubject = {
+      scope: 'update-vehicles',
+      vehicleIds,
+      changes: Object.fromEntries(currentRows.map(row => [row.id, patches.get(row.id)])),
+    };
+
+    if (dryRun || (isBulk && !confirmationToken)) {
+      const preview = currentRows.map(row => ({
+        vehicle: toVehicleSummary(row),
+        changes: Object.fromEntries(
+          Object.keys(patches.get(row.id)!).map(column => [column, { current: row[column] ?? null, proposed: patches.get(row.id)![column] }])
+        ),
+      }));
+      const confirmation = isBulk ? issueConfirmationToken(confirmationSubject) : null;
+
+      const previewList = preview.map(({ vehicle, changes }, i) => {
+        const changeLines = Object.entries(changes)
+          .map(([column, change]) => `      ${column}: ${formatValue(column, change.current)} → ${formatValue(column, change.proposed)}`)
+          .join('\n');
+        return `${i + 1}. ${vehicle.year || ''} ${vehicle.make || ''} ${vehicle.model || ''} (ID: ${vehicle.id}, VIN: ${vehicle.vin || 'N/A'})\n${changeLines}`;
+      }).join('\n');
 
-    // Perform the update
-    const { data: updatedData, error: updateError } = await supabase
-      .from('vehicles')
-      .update(updateData)
-      .in('id', vehicleIds)
-      .select('id, year, make, model, vin');
+      const skippedList = skipped.length > 0
+        ? `\n\nSkipped ${skipped.length} vehicle(s):\n` + skipped.map(s => `   - ID ${s.vehicle.id}: ${s.reason}`).join('\n')
+        : '';
 
-    if (updateError) {
-      return `Error updating vehicles: ${updateError.message}`;
+      const instructions = confirmation
+        ? `To apply, call update-vehicles again with the same arguments and confirmationToken: "${confirmation.token}" (expires ${new Date(confirmation.expiresAt).toLocaleString()}).`
+        : `To apply, call update-vehicles again without dryRun.`;
+
+      return toolSuccess(
+        `🔍 Preview: ${preview.length} vehicle(s) would be updated${adjustmentLabel ? ` (${adjustmentLabel})` : ''}. Nothing has been changed yet.\n\n${previewList}${skippedList}\n\n${instructions}`,
+        {
+          mode: 'preview' as const,
+          count: preview.length,
+          vehicleIds,
+          updatedFields: updateData,
+          adjustment: adjustmentLabel,
+          lockedFields,
+          priceChanges: plannedPriceChanges,
+          skipped,
+          vehicles: preview.map(p => p.vehicle),
+          preview,
+          confirmationToken: confirmation?.token ?? null,
+          expiresAt: confirmation?.expiresAt ?? null,
+        }
+      );
+    }
+
+    if (confirmationToken) {
+      const verification = verifyConfirmationToken(confirmationToken, confirmationSubject);
+      if (!verification.valid) {
+        return toolError('CONFIRMATION_INVALID', verification.error, { vehicleIds });
+      }
     }
 
+    // Perform the update, one statement per distinct set of values
+    const updatedAt = new Date().toISOString();
+    const batches = new Map<string, { patch: Record<string, any>; ids: number[] }>();
+    for (const [vehicleId, patch] of patches) {
+      const key = JSON.stringify(patch);
+      if (!batches.has(key)) batches.set(key, { patch, ids: [] });
+      batches.get(key)!.ids.push(vehicleId);
+    }
+
+    const updatedData: Record<string, any>[] = [];
+    for (const { patch, ids } of batches.values()) {
+      const { data: updatedRows, error: updateError } = await repository.updateVehicles(
+        ids,
+        { ...patch, updated_at: updatedAt },
+        { columns: selectColumns }
+      );
+
+      if (updateError) {
+        return toolError('DATABASE_ERROR', `Error updating vehicles: ${updateError.message}`, {
+          vehicleIds,
+          updatedVehicleIds: updatedData.map(v => v.id),
+        });
+      }
+
+      updatedData.push(...updatedRows);
+    }
+
+    // Keep the price timeline complete: first any vAuto changes since the last
+    // recorded value, then this update
+    const priceChanges = diffPrices(currentRows, updatedData);
+    await syncPriceHistory(repository, currentRows);
+    await recordPriceChanges(repository, { source: 'update-vehicles', changes: priceChanges });
+
+    // Record the before/after values in the audit log
+    const changes: AuditChanges = {};
+    for (const after of updatedData) {
+      const before = currentRows.find(v => v.id === after.id);
+      if (before) changes[after.id] = diffColumns(before, after, changedColumnNames);
+    }
+    const audit = await recordAudit(repository, { tool: 'update-vehicles', changes });
+
     // Format the response
-    const updatedFields = Object.keys(updateData)
-      .filter(key => key !== 'updated_at')
-      .map(key => {
+    const updatedFields = [
+      ...Object.keys(updateData).map(key => {
         const displayKey = key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
         return `${displayKey}: ${updateData[key]}`;
-      })
-      .join(', ');
+      }),
+      ...(adjustmentLabel ? [`Adjustment: ${adjustmentLabel}`] : []),
+    ].join(', ');
 
-    const vehicleList = updatedData?.map((v: any, i: number) => 
-      `${i + 1}. ${v.year || ''} ${v.make || ''} ${v.model || ''} (ID: ${v.id}, VIN: ${v.vin || 'N/A'})`
-    ).join('\n   ') || '';
+    const vehicleList = updatedData.map((v: any, i: number) => {
+      const priceLines = priceChanges
+        .filter(change => change.vehicleId === v.id)
+        .map(change => `\n      ${change.field}: ${formatValue(change.field, change.oldValue)} → ${formatValue(change.field, change.newValue)}`)
+        .join('');
+      return `${i + 1}. ${v.year || ''} ${v.make || ''} ${v.model || ''} (ID: ${v.id}, VIN: ${v.vin || 'N/A'})${priceLines}`;
+    }).join('\n   ');
+
+    const skippedList = skipped.length > 0
+      ? `\n\nSkipped ${skipped.length} vehicle(s):\n` + skipped.map(s => `   - ID ${s.vehicle.id}: ${s.reason}`).join('\n')
+      : '';
+
+    const updatedVehicles = updatedData.map(toVehicleSummary);
+
+    const lockNotice = lockedFields.length > 0
+      ? `\n\n🔒 Locked against the vAuto import: ${lockedFields.join(', ')}. Use unlock-fields to let the feed update them again.`
+      : '';
+
+    return toolSuccess(
+      `Successfully updated ${updatedVehicles.length} vehicle(s).\n\nUpdated fields: ${updatedFields}\n\nVehicles updated:\n   ${vehicleList}${skippedList}${lockNotice}${auditWarning(audit)}`,
+      {
+        mode: 'applied' as const,
+        count: updatedVehicles.length,
+        vehicleIds: updatedVehicles.map(v => v.id),
+        updatedFields: updateData,
+        adjustment: adjustmentLabel,
+        lockedFields,
+        priceChanges,
+        skipped,
+        vehicles: updatedVehicles,
+      }
+    );
 
-    return `Successfully updated ${updatedData?.length || 0} vehicle(s).\n\nUpdated fields: ${updatedFields}\n\nVehicles updated:\n   ${vehicleList}`;
-    
   } catch (err) {
-    return `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    return unexpectedError(err);
   }
 }
-
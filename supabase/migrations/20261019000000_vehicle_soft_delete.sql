@@ -0,0 +1,8 @@
+-- Soft delete support for delete-vehicle / restore-vehicle.
+-- deleted_at already exists; record why a vehicle was moved to the trash.
+alter table public.vehicles
+  add column if not exists deletion_reason text;
+
+create index if not exists vehicles_deleted_at_idx
+  on public.vehicles (deleted_at)
+  where deleted_at is not null;
@@ -0,0 +1,19 @@
+-- Audit trail of every write made through the MCP tools.
+-- changes: { "<vehicle id>": { "<column>": { "before": ..., "after": ... } } }
+create table if not exists public.vehicle_audit_log (
+  id bigint generated by default as identity primary key,
+  tool text not null,
+  actor text not null,
+  vehicle_ids bigint[] not null default '{}',
+  changes jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vehicle_audit_log_created_at_idx
+  on public.vehicle_audit_log (created_at desc);
+
+create index if not exists vehicle_audit_log_vehicle_ids_idx
+  on public.vehicle_audit_log using gin (vehicle_ids);
+
+create index if not exists vehicle_audit_log_tool_actor_idx
+  on public.vehicle_audit_log (tool, actor);
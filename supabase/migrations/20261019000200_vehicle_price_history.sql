@@ -0,0 +1,16 @@
+-- Timeline of price / custom_price values per vehicle.
+-- source: the tool that changed the value, 'vauto-sync' for differences detected
+-- on read after a vAuto refresh, or 'baseline' for the first value seen.
+create table if not exists public.vehicle_price_history (
+  id bigint generated by default as identity primary key,
+  vehicle_id bigint not null,
+  field text not null check (field in ('price', 'custom_price')),
+  old_value numeric,
+  new_value numeric,
+  source text not null,
+  actor text not null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists vehicle_price_history_vehicle_idx
+  on public.vehicle_price_history (vehicle_id, field, changed_at desc);
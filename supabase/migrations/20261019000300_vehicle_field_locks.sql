@@ -0,0 +1,12 @@
+-- Field locks and VIN suppression for the vAuto import.
+-- locked_fields: columns edited through the tools that the import keeps.
+alter table public.vehicles
+  add column if not exists locked_fields text[] not null default '{}';
+
+-- VINs the import must neither add nor restore, e.g. vehicles deleted on purpose.
+create table if not exists public.vehicle_vin_suppressions (
+  vin text primary key,
+  reason text,
+  actor text not null,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,88 @@
+-- Ranked full-text search for search-vehicles.
+-- Weights: A series_detail, tags; B features, engine; C description,
+-- ai_description; D notes (same as SEARCH_FIELD_WEIGHTS in src/lib/text-search.ts).
+
+-- Feature list as plain text, one item after the other
+create or replace function public.vehicle_features_text(features jsonb)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when features is null then ''
+    when jsonb_typeof(features) = 'array' then
+      coalesce((select string_agg(item, ', ') from jsonb_array_elements_text(features) as item), '')
+    else features::text
+  end
+$$;
+
+create or replace function public.vehicle_search_document(v public.vehicles)
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(v.series_detail, '') || ' ' || coalesce(v.tags, '')), 'A') ||
+    setweight(to_tsvector('english', public.vehicle_features_text(v.features) || ' ' || coalesce(v.engine, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(v.description, '') || ' ' || coalesce(v.ai_description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(v.notes, '')), 'D')
+$$;
+
+create index if not exists vehicles_search_idx
+  on public.vehicles using gin (public.vehicle_search_document(vehicles))
+  where deleted_at is null;
+
+-- Active vehicles matching a web-search style query ("quoted phrase", -word, or),
+-- most relevant first, with a highlighted snippet and the columns that matched.
+create or replace function public.search_vehicles(search_query text, max_results integer default 1000)
+returns table (id bigint, rank real, snippet text, matched_fields text[])
+language sql
+stable
+as $$
+  with q as (
+    select
+      websearch_to_tsquery('english', search_query) as query,
+      -- Same terms combined with OR, to tell which columns hold any of them
+      nullif(replace(querytree(websearch_to_tsquery('english', search_query)), '&', '|'), '')::tsquery as any_term
+  ),
+  matches as (
+    select v.id, ts_rank(public.vehicle_search_document(v), q.query) as rank
+    from public.vehicles v, q
+    where v.deleted_at is null
+      and public.vehicle_search_document(v) @@ q.query
+    order by rank desc, v.id
+    limit max_results
+  ),
+  fields as (
+    select v.id, f.name, f.body
+    from matches m
+    join public.vehicles v on v.id = m.id
+    cross join lateral (values
+      ('series_detail', coalesce(v.series_detail, '')),
+      ('tags', coalesce(v.tags, '')),
+      ('features', public.vehicle_features_text(v.features)),
+      ('engine', coalesce(v.engine, '')),
+      ('description', coalesce(v.description, '')),
+      ('ai_description', coalesce(v.ai_description, '')),
+      ('notes', coalesce(v.notes, ''))
+    ) as f(name, body)
+  )
+  select
+    m.id,
+    m.rank,
+    (
+      select ts_headline('english', f.body, q.any_term,
+        'StartSel=**, StopSel=**, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "')
+      from fields f
+      where f.id = m.id and to_tsvector('english', f.body) @@ q.any_term
+      order by ts_rank(to_tsvector('english', f.body), q.any_term) desc
+      limit 1
+    ) as snippet,
+    array(
+      select f.name
+      from fields f
+      where f.id = m.id and to_tsvector('english', f.body) @@ q.any_term
+    ) as matched_fields
+  from matches m, q
+  order by m.rank desc, m.id
+$$;
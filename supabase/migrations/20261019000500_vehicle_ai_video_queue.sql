@@ -0,0 +1,8 @@
+-- AI video regeneration requests (regenerate-ai-videos). The video batch
+-- clears the timestamp when it writes the new ai_video.
+alter table public.vehicles
+  add column if not exists ai_video_queued_at timestamptz;
+
+create index if not exists vehicles_ai_video_queued_at_idx
+  on public.vehicles (ai_video_queued_at)
+  where ai_video_queued_at is not null;
@@ -0,0 +1,30 @@
+-- Notes on a vehicle as a history of entries with author, time and category.
+-- vehicles.notes keeps the text of all entries, oldest first, for
+-- search-vehicles; the tools rewrite it after every change.
+create table if not exists public.vehicle_notes (
+  id bigint generated by default as identity primary key,
+  vehicle_id bigint not null,
+  body text not null,
+  category text check (category in ('pricing', 'condition', 'customer')),
+  author text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  updated_by text
+);
+
+create index if not exists vehicle_notes_vehicle_idx
+  on public.vehicle_notes (vehicle_id, created_at desc);
+
+create index if not exists vehicle_notes_created_idx
+  on public.vehicle_notes (created_at desc);
+
+-- Full-text search of search-notes (websearch queries on body)
+create index if not exists vehicle_notes_body_search_idx
+  on public.vehicle_notes using gin (to_tsvector('english', body));
+
+-- The existing notes of each vehicle become its first entry
+insert into public.vehicle_notes (vehicle_id, body, author, created_at)
+select v.id, v.notes, 'notes-migration', coalesce(v.updated_at, now())
+from public.vehicles v
+where nullif(btrim(v.notes), '') is not null
+  and not exists (select 1 from public.vehicle_notes n where n.vehicle_id = v.id);
@@ -0,0 +1,33 @@
+-- Normalised vehicle tags for add-tags, remove-tags, list-tags and the
+-- anyTags / allTags filters. tags stays a comma-separated text column; tag_list
+-- holds the same names as an array (same rules as parseTags in
+-- src/lib/vehicle-tags.ts: split on , or ;, lowercase, single spaces, no
+-- duplicates, in order of first appearance).
+create or replace function public.vehicle_tag_list(tags text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(tag order by position), '{}')
+  from (
+    select tag, min(position) as position
+    from (
+      select btrim(regexp_replace(lower(part), '\s+', ' ', 'g')) as tag, position
+      from regexp_split_to_table(coalesce(tags, ''), '[,;]') with ordinality as parts(part, position)
+    ) normalized
+    where tag <> ''
+    group by tag
+  ) distinct_tags
+$$;
+
+alter table public.vehicles
+  add column if not exists tag_list text[]
+  generated always as (public.vehicle_tag_list(tags)) stored;
+
+create index if not exists vehicles_tag_list_idx
+  on public.vehicles using gin (tag_list);
+
+-- Store existing tags in the normalised form the tools write
+update public.vehicles
+set tags = nullif(array_to_string(tag_list, ', '), '')
+where tags is distinct from nullif(array_to_string(tag_list, ', '), '');
@@ -0,0 +1,7 @@
+-- Latest price history entry per vehicle and field, read by syncPriceHistory
+-- instead of the whole history (which PostgREST caps at 1000 rows per request).
+create or replace view public.vehicle_price_history_latest
+with (security_invoker = true) as
+select distinct on (vehicle_id, field) *
+from public.vehicle_price_history
+order by vehicle_id, field, changed_at desc, id desc;
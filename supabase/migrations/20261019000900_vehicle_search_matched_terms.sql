@@ -0,0 +1,61 @@
+-- search_vehicles fixes:
+-- - snippet and matched_fields look for the query's positive terms only. The
+--   OR of the whole query turned -word into "!word", which every column without
+--   that word (even an empty one) matched.
+-- - max_results defaults to null (no limit). The caller pages through the
+--   results and applies its structured filters to all matches, so a limit here
+--   dropped matches before filtering.
+create or replace function public.search_vehicles(search_query text, max_results integer default null)
+returns table (id bigint, rank real, snippet text, matched_fields text[])
+language sql
+stable
+as $$
+  with q as (
+    select
+      websearch_to_tsquery('english', search_query) as query,
+      -- Terms that are not excluded (-word, -"phrase"), combined with OR, to tell which columns hold any of them
+      nullif(replace(querytree(websearch_to_tsquery('english',
+        regexp_replace(search_query, '(^|\s)-("[^"]*"?|\S+)', ' ', 'g')
+      )), '&', '|'), '')::tsquery as any_term
+  ),
+  matches as (
+    select v.id, ts_rank(public.vehicle_search_document(v), q.query) as rank
+    from public.vehicles v, q
+    where v.deleted_at is null
+      and public.vehicle_search_document(v) @@ q.query
+    order by rank desc, v.id
+    limit max_results
+  ),
+  fields as (
+    select v.id, f.name, f.body
+    from matches m
+    join public.vehicles v on v.id = m.id
+    cross join lateral (values
+      ('series_detail', coalesce(v.series_detail, '')),
+      ('tags', coalesce(v.tags, '')),
+      ('features', public.vehicle_features_text(v.features)),
+      ('engine', coalesce(v.engine, '')),
+      ('description', coalesce(v.description, '')),
+      ('ai_description', coalesce(v.ai_description, '')),
+      ('notes', coalesce(v.notes, ''))
+    ) as f(name, body)
+  )
+  select
+    m.id,
+    m.rank,
+    (
+      select ts_headline('english', f.body, q.any_term,
+        'StartSel=**, StopSel=**, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "')
+      from fields f
+      where f.id = m.id and to_tsvector('english', f.body) @@ q.any_term
+      order by ts_rank(to_tsvector('english', f.body), q.any_term) desc
+      limit 1
+    ) as snippet,
+    array(
+      select f.name
+      from fields f
+      where f.id = m.id and to_tsvector('english', f.body) @@ q.any_term
+    ) as matched_fields
+  from matches m, q
+  order by m.rank desc, m.id
+$$;